@@ -9,13 +9,287 @@ declare global {
   }
 }
 
-type TabType = 'word' | 'latex' | 'latex-shuffle' | 'settings';
+type TabType = 'word' | 'latex' | 'latex-shuffle' | 'bank' | 'settings';
 
 interface CustomFile {
     name: string;
     content: string;
 }
 
+interface AnswerKeyEntry {
+    code: string;
+    number: number; // Số thứ tự câu trong phần của mã đề
+    type: 'TN' | 'TF' | 'TL';
+    originalId: string; // id q_N từ parseLatexQuestions
+    answer: string; // TN: "A", TF: các ý đúng "ac", TL: giá trị \shortans
+}
+
+interface QuestionMapEntry {
+    code: string;
+    type: 'TN' | 'TF' | 'TL';
+    number: number; // Số thứ tự câu trong mã đề
+    originalNumber: number; // Số thứ tự câu trong phần tương ứng của file gốc
+    originalId: string;
+    optionOrder: string; // "CADB": phương án A mới là phương án C gốc...
+}
+
+// builtin: preamble mặc định; source: giữ nguyên preamble file gốc; merge: gộp hai preamble
+type PreambleMode = 'builtin' | 'source' | 'merge';
+
+interface ExamHeader {
+    name: string; // Tên mẫu (Giữa kì, Cuối kì, Thi thử...)
+    school: string;
+    teacher: string;
+    examName: string;
+    subject: string;
+    duration: string; // Phút
+    pageCount: string; // Để trống: tự đếm bằng \pageref
+}
+
+interface ShuffleOptions {
+    disableTFShuffle: boolean;
+    seed: string;
+    includeMapAppendix: boolean; // Thêm trang bảng đối chiếu vào cuối file .tex (Word: cuối file đáp án)
+    header: ExamHeader;
+    preambleMode: PreambleMode;
+    balanceLevels: boolean; // Trộn trong từng mức độ, giữ thứ tự NB -> TH -> VD -> VDC
+}
+
+// Số phương án chuẩn của \choice / \choiceTF và giới hạn tối đa khi trộn (A-F)
+const STANDARD_OPTION_COUNT = 4;
+const MAX_OPTION_COUNT = 6;
+
+// Một dòng của ma trận đề: rút `count` câu loại `type`, mức độ `level` (0 = bất kỳ) chứa `keyword`
+interface BlueprintRow {
+    keyword: string;
+    level: number;
+    type: 'TN' | 'TF' | 'TL';
+    count: number;
+}
+
+// Một câu hỏi trong ngân hàng (IndexedDB), khóa là hash nội dung đã chuẩn hóa
+interface BankQuestion {
+    hash: string;
+    content: string; // Khối \begin{ex}...\end{ex}
+    type: 'TN' | 'TF' | 'TL';
+    level?: number;
+    subject: string;
+    chapter: string;
+    source: string;
+    createdAt: number;
+}
+
+// Cụm câu trùng: phần tử đầu tiên là câu gốc, similarity tính so với câu đó
+interface DuplicateCluster {
+    exact: boolean;
+    members: { id: string, similarity: number }[];
+    keepId: string;
+}
+
+// Dữ liệu một khối được đánh giá bởi biểu thức lọc (type không có với khối TikZ rời)
+interface FilterContext {
+    content: string;
+    type?: 'TN' | 'TF' | 'TL';
+}
+
+// Một hình trích từ câu hỏi (thư viện hình)
+interface ExtractedFigure {
+    questionNumber: number; // Thứ tự câu trong dữ liệu nguồn
+    questionId: string;
+    kind: 'tikz' | 'image' | 'immini';
+    code: string;
+}
+
+interface QuestionStatistics {
+    total: number;
+    avgLength: number; // Số ký tự trung bình của phần nội dung câu
+    byType: { type: 'TN' | 'TF' | 'TL', count: number, avgLength: number, missingTrue: number, emptyShortans: number, withFigure: number }[];
+    byLevel: { label: string, count: number }[];
+    missingTrue: number[]; // Thứ tự các câu có phương án nhưng thiếu \True
+    emptyShortans: number[]; // Thứ tự các câu có \shortans{} rỗng
+    withFigure: number[];
+    keywords: { keyword: string, count: number }[]; // Số câu chứa cụm từ
+}
+
+// Sửa tự động: thay đoạn [start, end) của văn bản đã kiểm tra bằng `replacement`
+interface LintEdit {
+    start: number;
+    end: number;
+    replacement: string;
+}
+
+interface LintIssue {
+    line: number; // Bắt đầu từ 1
+    questionNumber?: number; // Thứ tự \begin{ex} chứa lỗi
+    severity: 'error' | 'warning';
+    message: string;
+    fix?: { label: string, edits: LintEdit[] };
+}
+
+// Một ô của bảng đáp án: phần (0 = đề không chia phần) + số câu trong phần
+interface AnswerTableEntry {
+    part: number;
+    number: number;
+    kind: 'choice' | 'tf' | 'short';
+    value: string; // "C", "ĐSĐS" hoặc "2,5"
+}
+
+// Câu hỏi tách từ đề gốc (parseLatexQuestions, parseWordQuestions)
+interface ExamQuestion {
+    fullContent: string;
+    type: 'TN' | 'TF' | 'TL'; // TN: Trắc nghiệm 4, TF: Đúng sai, TL: Tự luận
+    hasChoice: boolean;
+    id: string;
+    groupId?: string; // Câu nằm trong khối %group:begin ... %group:end
+    groupStem?: string; // Phần dữ kiện chung đặt trước câu đầu tiên của nhóm
+    fixed: boolean; // "%fixed" (LaTeX: cuối dòng \begin{ex}, Word: sau "Câu N."): câu giữ nguyên vị trí khi trộn
+    level?: number; // 1-4 theo LEVEL_NAMES, undefined nếu không gắn nhãn
+}
+
+// Câu hỏi đọc từ Word/HTML: thêm phần dẫn và phương án dạng HTML để dựng lại đề
+interface WordQuestion extends ExamQuestion {
+    stem: string[]; // Các khối HTML của phần dẫn (đã bỏ "Câu N.")
+    options: { html: string[], correct: boolean, fixed: boolean }[]; // correct: chữ cái phương án được gạch chân; fixed: "%fixed" cuối phương án
+    answer: string; // TL: giá trị dòng "Đáp án: ..."
+}
+
+interface BankTags {
+    subject: string;
+    chapter: string;
+    source: string;
+}
+
+interface PdfPageSelection {
+    page: number; // Số trang trong file PDF gốc
+    thumbnail: string; // data URL ảnh thu nhỏ
+    selected: boolean;
+    answerOnly: boolean; // Trang chỉ có bảng đáp án: không chuyển đổi, dùng cho "Bảng đáp án riêng"
+}
+
+interface ImagePreprocessSettings {
+    dpi: number; // Độ phân giải render trang PDF (72 DPI = scale 1)
+    format: 'jpeg' | 'png'; // PNG giữ nét công thức tốt hơn, file lớn hơn
+    quality: number; // Chất lượng JPEG 0.1 - 1
+    grayscale: boolean;
+    contrast: number; // 0 - 100 (%)
+    threshold: number; // 0 = tắt, 1 - 255: nhị phân hóa đen/trắng
+    deskew: boolean;
+    cropBorder: boolean;
+}
+
+interface QueueItem {
+    id: string;
+    file: File;
+    name: string;
+    status: 'pending' | 'running' | 'done' | 'error';
+    progress: number; // 0 - 100
+    result: string;
+    error?: string;
+    pages?: PdfPageSelection[]; // Chọn/sắp xếp trang PDF mang theo từ khung xem trước
+}
+
+interface BatchPoolSettings {
+    concurrency: number; // Số lô PDF gửi đồng thời
+    requestsPerMinute: number; // Giới hạn yêu cầu Gemini mỗi phút
+}
+
+// Kết quả một lô trang PDF đã xử lý, lưu để chạy tiếp khi bị gián đoạn
+interface BatchCheckpoint {
+    id: string; // `${job}|${pages.join(',')}`
+    job: string; // `${fileHash}|${mode}|${tab}|${selectionHash}`
+    fileHash: string;
+    mode: 'convert' | 'solve';
+    tab: TabType;
+    pages: number[]; // Trang PDF của lô, theo thứ tự đã chọn
+    totalBatches: number;
+    status: 'done' | 'failed';
+    result: string;
+    updatedAt: number;
+}
+
+interface ResumeOffer {
+    fileHash: string;
+    job: string;
+    mode: 'convert' | 'solve';
+    totalBatches: number;
+    done: number;
+    failed: number;
+}
+
+// Cây công thức trung gian: LaTeX ($...$) -> OMML (file .docx) / MathML (clipboard)
+type MathNode =
+    | { kind: 'run', text: string, upright?: boolean }
+    | { kind: 'frac', num: MathNode[], den: MathNode[] }
+    | { kind: 'sqrt', body: MathNode[], degree?: MathNode[] }
+    | { kind: 'script', base: MathNode[], sub?: MathNode[], sup?: MathNode[] }
+    | { kind: 'accent', chr: string, body: MathNode[] }
+    | { kind: 'delim', open: string, close: string, body: MathNode[] };
+
+// Khổ giấy file .docx theo preamble mẫu (a4paper, geometry top/bottom 1.2cm, left/right 1.5cm), đơn vị twip
+const DOCX_PAGE = { width: 11906, height: 16838, marginTop: 680, marginBottom: 680, marginLeft: 850, marginRight: 850 };
+const DOCX_MIME = "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+
+const CRC32_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+const LATEX_MATH_SYMBOLS: Record<string, string> = {
+    alpha: 'α', beta: 'β', gamma: 'γ', delta: 'δ', epsilon: 'ϵ', varepsilon: 'ε', zeta: 'ζ', eta: 'η', theta: 'θ', vartheta: 'ϑ',
+    iota: 'ι', kappa: 'κ', lambda: 'λ', mu: 'μ', nu: 'ν', xi: 'ξ', pi: 'π', rho: 'ρ', sigma: 'σ', tau: 'τ', upsilon: 'υ',
+    phi: 'ϕ', varphi: 'φ', chi: 'χ', psi: 'ψ', omega: 'ω',
+    Gamma: 'Γ', Delta: 'Δ', Theta: 'Θ', Lambda: 'Λ', Xi: 'Ξ', Pi: 'Π', Sigma: 'Σ', Phi: 'Φ', Psi: 'Ψ', Omega: 'Ω',
+    cdot: '⋅', times: '×', div: '÷', pm: '±', mp: '∓', le: '≤', leq: '≤', ge: '≥', geq: '≥', ne: '≠', neq: '≠',
+    approx: '≈', sim: '∼', simeq: '≃', equiv: '≡', propto: '∝', infty: '∞', to: '→', rightarrow: '→', leftarrow: '←',
+    Rightarrow: '⇒', Leftrightarrow: '⇔', in: '∈', notin: '∉', subset: '⊂', cup: '∪', cap: '∩', emptyset: '∅',
+    varnothing: '∅', forall: '∀', exists: '∃', perp: '⊥', parallel: '∥', angle: '∠', triangle: '△', circ: '∘',
+    degree: '°', prime: '′', ldots: '…', dots: '…', cdots: '⋯', sum: '∑', prod: '∏', int: '∫', partial: '∂', nabla: '∇',
+    hbar: 'ℏ', ell: 'ℓ', '%': '%', '{': '{', '}': '}', '$': '$', '#': '#', '&': '&', '|': '‖', lbrace: '{', rbrace: '}',
+    langle: '⟨', rangle: '⟩', ',': ' ', ';': ' ', ':': ' ', ' ': ' ', quad: ' ', qquad: '  ', '!': ''
+};
+
+// Tên hàm viết đứng (sin, log, ...) và các dấu mũ hỗ trợ
+const LATEX_MATH_FUNCTIONS = ['sin', 'cos', 'tan', 'cot', 'arcsin', 'arccos', 'arctan', 'sinh', 'cosh', 'log', 'ln', 'lg', 'exp', 'lim', 'max', 'min', 'det', 'gcd'];
+const LATEX_MATH_ACCENTS: Record<string, string> = { vec: '\u20D7', overrightarrow: '\u20D7', overline: '\u0305', bar: '\u0305', hat: '\u0302', widehat: '\u0302', tilde: '\u0303', dot: '\u0307' };
+
+const APP_DB_NAME = "nk12_converter";
+const APP_DB_VERSION = 2;
+const BANK_STORE = "questions";
+const CHECKPOINT_STORE = "batch_checkpoints";
+
+// Mức độ nhận thức (1-4) dùng cho chế độ trộn cân bằng
+const LEVEL_NAMES = ['Nhận biết', 'Thông hiểu', 'Vận dụng', 'Vận dụng cao'];
+
+// Common syllables that never make a useful topic keyword on their own
+const KEYWORD_STOPWORDS = new Set([
+    'của', 'và', 'là', 'có', 'các', 'một', 'được', 'cho', 'với', 'trong', 'khi', 'thì', 'này', 'đó', 'bằng',
+    'theo', 'từ', 'không', 'những', 'tại', 'để', 'ra', 'vào', 'trên', 'dưới', 'như', 'nào', 'bao', 'nhiêu',
+    'sau', 'đây', 'câu', 'hãy', 'gì', 'mà', 'đã', 'sẽ', 'bị', 'do', 'nếu', 'thể', 'lên', 'xuống', 'còn'
+]);
+
+// Mặc định giữ nguyên cách render cũ (scale 2.0, JPEG 0.8, không xử lý)
+const DEFAULT_IMAGE_PREPROCESS: ImagePreprocessSettings = {
+    dpi: 144, format: 'jpeg', quality: 0.8, grayscale: false, contrast: 0, threshold: 0, deskew: false, cropBorder: false
+};
+
+const DEFAULT_BATCH_POOL: BatchPoolSettings = { concurrency: 3, requestsPerMinute: 10 };
+const MAX_BATCH_CONCURRENCY = 10; // Tổng số yêu cầu đồng thời, kể cả khi hàng đợi chạy song song nhiều file
+
+const DEFAULT_EXAM_HEADER: ExamHeader = {
+    name: "Mặc định",
+    school: "",
+    teacher: "",
+    examName: "ĐỀ ÔN TẬP THI HỌC KÌ 1",
+    subject: "VẬT LÍ",
+    duration: "50",
+    pageCount: ""
+};
+
 const App = () => {
   // --- TABS STATE ---
   const [activeTab, setActiveTab] = useState<TabType>('word');
@@ -37,11 +311,44 @@ const App = () => {
   // --- LATEX SHUFFLE STATE ---
   const [shuffleCodes, setShuffleCodes] = useState<string>("101, 102, 103, 104");
   const [disableTFShuffle, setDisableTFShuffle] = useState<boolean>(false);
+  const [shuffleSeed, setShuffleSeed] = useState<string>("");
+  const [answerKey, setAnswerKey] = useState<AnswerKeyEntry[]>([]);
+  const [questionMap, setQuestionMap] = useState<QuestionMapEntry[]>([]);
+  const [shuffleWarnings, setShuffleWarnings] = useState<string[]>([]);
+  const [includeMapAppendix, setIncludeMapAppendix] = useState<boolean>(false);
+  const [preambleMode, setPreambleMode] = useState<PreambleMode>('builtin');
+  const [balanceLevels, setBalanceLevels] = useState<boolean>(false);
+
+  // --- BLUEPRINT (MA TRẬN ĐỀ) STATE ---
+  const [blueprintRows, setBlueprintRows] = useState<BlueprintRow[]>([]);
+  const [showBlueprint, setShowBlueprint] = useState<boolean>(false);
+
+  // --- QUESTION BANK STATE ---
+  const [bankQuestions, setBankQuestions] = useState<BankQuestion[]>([]);
+  const [bankTags, setBankTags] = useState<BankTags>({ subject: "", chapter: "", source: "" });
+  const [bankSearch, setBankSearch] = useState<string>("");
+  const [bankTypeFilter, setBankTypeFilter] = useState<'all' | 'TN' | 'TF' | 'TL'>('all');
+  const [bankLevelFilter, setBankLevelFilter] = useState<number>(0);
+  const [bankSelected, setBankSelected] = useState<string[]>([]); // hash
+
+  // --- EXAM HEADER TEMPLATE STATE ---
+  const [examHeader, setExamHeader] = useState<ExamHeader>(DEFAULT_EXAM_HEADER);
+  const [headerTemplates, setHeaderTemplates] = useState<ExamHeader[]>([]);
+  const [showHeaderForm, setShowHeaderForm] = useState<boolean>(false);
 
   // --- LATEX FILTER STATE ---
   const [filterFiles, setFilterFiles] = useState<FileList | null>(null);
   const [filterKeywords, setFilterKeywords] = useState<string>(""); // Keywords separated by comma
-  const [filterType, setFilterType] = useState<'all' | 'tn' | 'tf' | 'tl' | 'tikz'>('all');
+  const [filterType, setFilterType] = useState<'all' | 'tn' | 'tf' | 'tl' | 'tikz' | 'figures'>('all');
+  const [figureGallery, setFigureGallery] = useState<ExtractedFigure[]>([]);
+  const [dupThreshold, setDupThreshold] = useState<number>(85); // %
+  const [duplicateReport, setDuplicateReport] = useState<{ source: string, questions: ReturnType<typeof parseLatexQuestions>, clusters: DuplicateCluster[] } | null>(null);
+  const [statsReport, setStatsReport] = useState<QuestionStatistics | null>(null);
+  const [lintReport, setLintReport] = useState<{ text: string, issues: LintIssue[] } | null>(null);
+  const [answerTableText, setAnswerTableText] = useState<string>(""); // Bảng đáp án dán vào hoặc đọc từ trang cuối PDF
+  const [answerTablePages, setAnswerTablePages] = useState<number>(2);
+  const [answerTableReport, setAnswerTableReport] = useState<{ applied: number, messages: string[] } | null>(null);
+  const [wordShuffleDocs, setWordShuffleDocs] = useState<{ name: string, html: string }[]>([]); // Mỗi mã đề + file đáp án
 
   // --- RESULT STATE ---
   const [resultContent, setResultContent] = useState<string>("");
@@ -53,6 +360,25 @@ const App = () => {
   
   // --- CONTROL REFS ---
   const abortRef = useRef<boolean>(false); // To signal stop
+  const abortControllerRef = useRef<AbortController | null>(null); // Cancels in-flight Gemini requests
+
+  // --- BATCH POOL STATE ---
+  const [batchPool, setBatchPool] = useState<BatchPoolSettings>(DEFAULT_BATCH_POOL);
+  const [resumeOffer, setResumeOffer] = useState<ResumeOffer | null>(null);
+
+  // --- IMAGE PREPROCESSING STATE ---
+  const [imagePreprocess, setImagePreprocess] = useState<ImagePreprocessSettings>(DEFAULT_IMAGE_PREPROCESS);
+  const [preprocessPreview, setPreprocessPreview] = useState<{ before: string, after: string, info: string } | null>(null);
+
+  // --- CONVERSION QUEUE STATE ---
+  const [queue, setQueue] = useState<QueueItem[]>([]); // Array order = merge order
+  const [queueMode, setQueueMode] = useState<'sequential' | 'parallel'>('sequential');
+  const [queueOutput, setQueueOutput] = useState<'merged' | 'separate'>('merged');
+  const [queueRunMode, setQueueRunMode] = useState<'convert' | 'solve' | null>(null); // Lần chạy hàng đợi gần nhất, để tiếp tục từ checkpoint
+
+  // --- PDF PAGE SELECTION STATE ---
+  const [pdfPages, setPdfPages] = useState<PdfPageSelection[]>([]); // Array order = processing order
+  const [pageRangeText, setPageRangeText] = useState<string>("");
 
   // --- PREVIEW MODE STATE ---
   const [isPreviewMode, setIsPreviewMode] = useState<boolean>(false);
@@ -62,6 +388,53 @@ const App = () => {
     const storedKey = localStorage.getItem("user_gemini_api_key");
     if (storedKey) setUserApiKey(storedKey);
 
+    const storedSeed = localStorage.getItem("shuffle_seed");
+    if (storedSeed) {
+        setShuffleSeed(storedSeed);
+    } else {
+        const newSeed = generateSeed();
+        setShuffleSeed(newSeed);
+        localStorage.setItem("shuffle_seed", newSeed);
+    }
+
+    // Load exam header (current form + saved named templates)
+    const storedHeader = localStorage.getItem("exam_header_current");
+    const storedTemplates = localStorage.getItem("exam_header_templates");
+    try {
+        if (storedHeader) setExamHeader({ ...DEFAULT_EXAM_HEADER, ...JSON.parse(storedHeader) });
+        if (storedTemplates) setHeaderTemplates(JSON.parse(storedTemplates));
+    } catch (e) {
+        console.error("Error parsing stored exam header", e);
+    }
+
+    const storedBatchPool = localStorage.getItem("batch_pool_settings");
+    if (storedBatchPool) {
+        try {
+            const stored: BatchPoolSettings = { ...DEFAULT_BATCH_POOL, ...JSON.parse(storedBatchPool) };
+            setBatchPool({ ...stored, concurrency: Math.min(MAX_BATCH_CONCURRENCY, stored.concurrency) });
+        } catch (e) {
+            console.error("Error parsing stored batch pool settings", e);
+        }
+    }
+
+    const storedPreprocess = localStorage.getItem("image_preprocess_settings");
+    if (storedPreprocess) {
+        try {
+            setImagePreprocess({ ...DEFAULT_IMAGE_PREPROCESS, ...JSON.parse(storedPreprocess) });
+        } catch (e) {
+            console.error("Error parsing stored image preprocessing settings", e);
+        }
+    }
+
+    const storedBlueprint = localStorage.getItem("exam_blueprint");
+    if (storedBlueprint) {
+        try {
+            setBlueprintRows(JSON.parse(storedBlueprint));
+        } catch (e) {
+            console.error("Error parsing stored blueprint", e);
+        }
+    }
+
     // Load custom files list
     const storedFiles = localStorage.getItem("custom_latex_files");
     if (storedFiles) {
@@ -107,6 +480,99 @@ const App = () => {
     return () => window.removeEventListener('paste', handleGlobalPaste);
   }, [activeTab]);
 
+  // Load the question bank whenever its tab is opened
+  useEffect(() => {
+    if (activeTab === 'bank') {
+        loadBankQuestions();
+    }
+  }, [activeTab]);
+
+  // Highlight lines with lint issues in the editor (CSS Custom Highlight API, leaves the DOM untouched)
+  useEffect(() => {
+    const registry = (window as any).CSS?.highlights as HighlightRegistry | undefined;
+    if (!registry) return;
+    registry.delete('latex-lint-error');
+    registry.delete('latex-lint-warning');
+    const editor = contentEditableRef.current;
+    if (!lintReport || !editor || isPreviewMode || editor.innerText !== lintReport.text) return;
+    (['error', 'warning'] as const).forEach(severity => {
+        const ranges = lintReport.issues
+            .filter(issue => issue.severity === severity)
+            .map(issue => {
+                const { start, end } = lineRange(lintReport.text, issue.line);
+                return createEditorRange(editor, start, end);
+            })
+            .filter((r): r is Range => r !== null);
+        if (ranges.length) registry.set(`latex-lint-${severity}`, new Highlight(...ranges));
+    });
+  }, [lintReport, resultContent, isPreviewMode]);
+
+  // Thumbnails for page selection; every page starts selected in its original order
+  useEffect(() => {
+    setPdfPages([]);
+    setPageRangeText("");
+    if (!file || file.type !== 'application/pdf' || !window.pdfjsLib) return;
+    let cancelled = false;
+    (async () => {
+        const pdfDoc = await window.pdfjsLib.getDocument(await file.arrayBuffer()).promise;
+        const pages: PdfPageSelection[] = [];
+        for (let p = 1; p <= pdfDoc.numPages && !cancelled; p++) {
+            const thumbnail = `data:image/jpeg;base64,${await renderPdfPageToImage(pdfDoc, p, 0.3)}`;
+            pages.push({ page: p, thumbnail, selected: true, answerOnly: false });
+        }
+        if (!cancelled) setPdfPages(pages);
+    })().catch(e => console.warn("Could not render thumbnails", e));
+    return () => { cancelled = true; };
+  }, [file]);
+
+  // Before/after preview of the preprocessing settings on the current file (first selected PDF page or the image).
+  // A plain number, so the preview re-renders when thumbnails load or the first page changes, not on every toggle.
+  const previewPage = pdfPages.find(p => p.selected && !p.answerOnly)?.page || 1;
+  useEffect(() => {
+    setPreprocessPreview(null);
+    if (activeTab !== 'settings' || !file || !(file.type === 'application/pdf' || file.type.startsWith('image/'))) return;
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+        try {
+            let canvas: HTMLCanvasElement;
+            if (file.type === 'application/pdf') {
+                if (!window.pdfjsLib) return;
+                const pdfDoc = await window.pdfjsLib.getDocument(await file.arrayBuffer()).promise;
+                canvas = await renderPdfPageToCanvas(pdfDoc, previewPage, imagePreprocess.dpi / 72);
+            } else {
+                const bitmap = await createImageBitmap(file);
+                canvas = document.createElement('canvas');
+                canvas.width = bitmap.width;
+                canvas.height = bitmap.height;
+                canvas.getContext('2d')!.drawImage(bitmap, 0, 0);
+                bitmap.close();
+            }
+            const before = canvas.toDataURL('image/jpeg', 0.8);
+            const processed = preprocessCanvas(canvas, imagePreprocess);
+            const after = processed.toDataURL(`image/${imagePreprocess.format}`, imagePreprocess.quality);
+            const sizeKb = Math.round(after.length * 0.75 / 1024);
+            if (!cancelled) setPreprocessPreview({ before, after, info: `${imagePreprocess.format.toUpperCase()} · ${processed.width}×${processed.height} px · ~${sizeKb} KB` });
+        } catch (e) {
+            console.warn("Could not render preprocessing preview", e);
+        }
+    }, 300);
+    return () => {
+        cancelled = true;
+        clearTimeout(timer);
+    };
+  }, [activeTab, file, imagePreprocess, previewPage]);
+
+  // Offer to resume when a PDF with saved batch checkpoints is opened again
+  useEffect(() => {
+    setResumeOffer(null);
+    if (!file) return;
+    let cancelled = false;
+    findResumeOffer(file, activeTab, pdfPages)
+        .then(offer => { if (!cancelled) setResumeOffer(offer); })
+        .catch(e => console.warn("Could not read checkpoints", e));
+    return () => { cancelled = true; };
+  }, [file, activeTab, pdfPages]);
+
   // Handle MathJax Rendering when entering Preview Mode
   useEffect(() => {
     if (isPreviewMode && resultContent && (window as any).MathJax) {
@@ -122,6 +588,82 @@ const App = () => {
     localStorage.setItem("user_gemini_api_key", newVal);
   };
 
+  const handleShuffleSeedChange = (newSeed: string) => {
+    setShuffleSeed(newSeed);
+    localStorage.setItem("shuffle_seed", newSeed);
+  };
+
+  const handleBatchPoolChange = (field: keyof BatchPoolSettings, value: number) => {
+    setBatchPool(prev => {
+        const clamped = Math.max(1, Math.floor(value) || 1);
+        const updated = { ...prev, [field]: field === 'concurrency' ? Math.min(MAX_BATCH_CONCURRENCY, clamped) : clamped };
+        localStorage.setItem("batch_pool_settings", JSON.stringify(updated));
+        return updated;
+    });
+  };
+
+  const handleImagePreprocessChange = <K extends keyof ImagePreprocessSettings>(field: K, value: ImagePreprocessSettings[K]) => {
+    setImagePreprocess(prev => {
+        const updated = { ...prev, [field]: value };
+        localStorage.setItem("image_preprocess_settings", JSON.stringify(updated));
+        return updated;
+    });
+  };
+
+  const handleExamHeaderChange = (field: keyof ExamHeader, value: string) => {
+    setExamHeader(prev => {
+        const updated = { ...prev, [field]: value };
+        localStorage.setItem("exam_header_current", JSON.stringify(updated));
+        return updated;
+    });
+  };
+
+  const handleSaveHeaderTemplate = () => {
+    const name = examHeader.name.trim();
+    if (!name) return setError("Vui lòng đặt tên cho mẫu tiêu đề.");
+    setHeaderTemplates(prev => {
+        // Same name => overwrite
+        const updated = [...prev.filter(t => t.name !== name), { ...examHeader, name }];
+        localStorage.setItem("exam_header_templates", JSON.stringify(updated));
+        return updated;
+    });
+  };
+
+  const handleSelectHeaderTemplate = (name: string) => {
+    const template = headerTemplates.find(t => t.name === name);
+    if (!template) return;
+    setExamHeader(template);
+    localStorage.setItem("exam_header_current", JSON.stringify(template));
+  };
+
+  const handleDeleteHeaderTemplate = (name: string) => {
+    setHeaderTemplates(prev => {
+        const updated = prev.filter(t => t.name !== name);
+        localStorage.setItem("exam_header_templates", JSON.stringify(updated));
+        return updated;
+    });
+  };
+
+  const updateBlueprintRows = (updater: (prev: BlueprintRow[]) => BlueprintRow[]) => {
+    setBlueprintRows(prev => {
+        const updated = updater(prev);
+        localStorage.setItem("exam_blueprint", JSON.stringify(updated));
+        return updated;
+    });
+  };
+
+  const handleBlueprintRowChange = (index: number, patch: Partial<BlueprintRow>) => {
+    updateBlueprintRows(prev => prev.map((row, i) => i === index ? { ...row, ...patch } : row));
+  };
+
+  const handleAddBlueprintRow = () => {
+    updateBlueprintRows(prev => [...prev, { keyword: "", level: 0, type: 'TN', count: 1 }]);
+  };
+
+  const handleDeleteBlueprintRow = (index: number) => {
+    updateBlueprintRows(prev => prev.filter((_, i) => i !== index));
+  };
+
   const handleCustomFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
       if (e.target.files && e.target.files.length > 0) {
           const newFiles: CustomFile[] = [];
@@ -171,23 +713,6 @@ const App = () => {
 
   const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
-  const createWordHtml = (content: string, title: string) => {
-    return "<html xmlns:o='urn:schemas-microsoft-com:office:office' " +
-      "xmlns:w='urn:schemas-microsoft-com:office:word' " +
-      "xmlns='http://www.w3.org/TR/REC-html40'>" +
-      "<head><meta charset='utf-8'><title>" + title + "</title>" +
-      "<style>" + 
-      "body { font-family: 'Be Vietnam Pro', 'Times New Roman', serif; font-size: 12pt; line-height: 1.5; } " + 
-      "p { margin-bottom: 6pt; margin-top: 0; } " +
-      "table { border-collapse: collapse; width: 100%; margin-top: 10px; border: 2px solid #000; } " +
-      "td { border: 1px solid #000; padding: 5px; color: #000; } " +
-      "th { border: 1px solid #000; padding: 5px; background-color: #003366; color: #ffffff; font-weight: bold; } " +
-      /* Force MathJax output to behave nicely in Word if possible, though Word uses images usually */
-      "mjx-container { display: inline-block !important; margin: 0 !important; }" +
-      "</style>" +
-      "</head><body>" + content + "</body></html>";
-  };
-
   const fileToGenericPart = async (file: File): Promise<{ inlineData: { data: string; mimeType: string } }> => {
     return new Promise((resolve, reject) => {
       const reader = new FileReader();
@@ -201,27 +726,255 @@ const App = () => {
     });
   };
 
+  // --- INDEXEDDB (question bank) ---
+  const openAppDb = () => new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(APP_DB_NAME, APP_DB_VERSION);
+      request.onupgradeneeded = () => {
+          const db = request.result;
+          if (!db.objectStoreNames.contains(BANK_STORE)) {
+              db.createObjectStore(BANK_STORE, { keyPath: "hash" });
+          }
+          if (!db.objectStoreNames.contains(CHECKPOINT_STORE)) {
+              const store = db.createObjectStore(CHECKPOINT_STORE, { keyPath: "id" });
+              store.createIndex("fileHash", "fileHash");
+          }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(new Error("Không mở được cơ sở dữ liệu của trình duyệt."));
+  });
+
+  const idbRequest = <T,>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+  });
+
+  const getAllBankQuestions = async () => {
+      const db = await openAppDb();
+      try {
+          return await idbRequest<BankQuestion[]>(db.transaction(BANK_STORE, "readonly").objectStore(BANK_STORE).getAll());
+      } finally {
+          db.close();
+      }
+  };
+
+  const putBankQuestions = async (items: BankQuestion[]) => {
+      const db = await openAppDb();
+      try {
+          const tx = db.transaction(BANK_STORE, "readwrite");
+          const store = tx.objectStore(BANK_STORE);
+          items.forEach(item => store.put(item));
+          await new Promise<void>((resolve, reject) => {
+              tx.oncomplete = () => resolve();
+              tx.onerror = () => reject(tx.error);
+          });
+      } finally {
+          db.close();
+      }
+  };
+
+  const deleteBankQuestions = async (hashes: string[]) => {
+      const db = await openAppDb();
+      try {
+          const tx = db.transaction(BANK_STORE, "readwrite");
+          const store = tx.objectStore(BANK_STORE);
+          hashes.forEach(hash => store.delete(hash));
+          await new Promise<void>((resolve, reject) => {
+              tx.oncomplete = () => resolve();
+              tx.onerror = () => reject(tx.error);
+          });
+      } finally {
+          db.close();
+      }
+  };
+
+  const getFileCheckpoints = async (fileHash: string) => {
+      const db = await openAppDb();
+      try {
+          const store = db.transaction(CHECKPOINT_STORE, "readonly").objectStore(CHECKPOINT_STORE);
+          return await idbRequest<BatchCheckpoint[]>(store.index("fileHash").getAll(fileHash));
+      } finally {
+          db.close();
+      }
+  };
+
+  const putCheckpoint = async (checkpoint: BatchCheckpoint) => {
+      const db = await openAppDb();
+      try {
+          await idbRequest(db.transaction(CHECKPOINT_STORE, "readwrite").objectStore(CHECKPOINT_STORE).put(checkpoint));
+      } finally {
+          db.close();
+      }
+  };
+
+  const deleteJobCheckpoints = async (fileHash: string, job: string) => {
+      const checkpoints = await getFileCheckpoints(fileHash);
+      const db = await openAppDb();
+      try {
+          const tx = db.transaction(CHECKPOINT_STORE, "readwrite");
+          const store = tx.objectStore(CHECKPOINT_STORE);
+          checkpoints.filter(c => c.job === job).forEach(c => store.delete(c.id));
+          await new Promise<void>((resolve, reject) => {
+              tx.oncomplete = () => resolve();
+              tx.onerror = () => reject(tx.error);
+          });
+      } finally {
+          db.close();
+      }
+  };
+
+  // Comments and whitespace do not change a question's identity
+  const normalizeForHash = (content: string) => content
+      .replace(/(^|[^\\])%.*$/gm, '$1')
+      .replace(/\s+/g, ' ')
+      .trim();
+
+  const sha256Hex = async (data: string | ArrayBuffer) => {
+      const digest = await crypto.subtle.digest('SHA-256', typeof data === 'string' ? new TextEncoder().encode(data) : data);
+      return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+  };
+
+  // --- SEEDED RANDOM (FNV-1a hash + Mulberry32) ---
+  // Same seed + same exam code => same sequence, so any code can be rebuilt later
+  const hashSeed = (text: string) => {
+      let h = 0x811c9dc5;
+      for (let i = 0; i < text.length; i++) {
+          h ^= text.charCodeAt(i);
+          h = Math.imul(h, 0x01000193);
+      }
+      return h >>> 0;
+  };
+
+  const createSeededRandom = (seed: number) => {
+      let state = seed >>> 0;
+      return () => {
+          state = (state + 0x6D2B79F5) >>> 0;
+          let t = state;
+          t = Math.imul(t ^ (t >>> 15), t | 1);
+          t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+          return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+      };
+  };
+
+  const generateSeed = () => Math.random().toString(36).substring(2, 8).toUpperCase();
+
+  // Escape user-typed text before putting it into LaTeX commands
+  const escapeLatex = (text: string) => text.replace(/[\\&%$#_{}~^]/g, ch => {
+      if (ch === '\\') return '\\textbackslash{}';
+      if (ch === '~') return '\\textasciitilde{}';
+      if (ch === '^') return '\\textasciicircum{}';
+      return '\\' + ch;
+  });
+
   // --- SHUFFLING LOGIC (Fisher-Yates) ---
-  const shuffleArray = (array: any[]) => {
+  const shuffleArray = <T,>(array: T[], random: () => number = Math.random) => {
       const newArr = [...array];
       for (let i = newArr.length - 1; i > 0; i--) {
-          const j = Math.floor(Math.random() * (i + 1));
+          const j = Math.floor(random() * (i + 1));
           [newArr[i], newArr[j]] = [newArr[j], newArr[i]];
       }
       return newArr;
   };
 
+  // Shuffle only the items not flagged by isFixed; fixed items keep their index
+  const shuffleWithFixed = <T,>(array: T[], isFixed: (item: T, index: number) => boolean, random: () => number) => {
+      const shuffledFree = shuffleArray(array.filter((item, i) => !isFixed(item, i)), random);
+      let k = 0;
+      return array.map((item, i) => isFixed(item, i) ? item : shuffledFree[k++]);
+  };
+
+  // Level tag of a question: ex_test ID "%[0D1N1-1]" (4th character N/Y=1, H/B=2, V/K=3, C/G=4)
+  // or an explicit "%level:NB|TH|VD|VDC" (also 1-4)
+  const parseQuestionLevel = (block: string): number | undefined => {
+      const idMatch = /%[ \t]*\[[ \t]*\d[A-Z]\d([A-Z])\d+(?:-\d+)?[ \t]*\]/.exec(block);
+      if (idMatch) {
+          const level = { N: 1, Y: 1, H: 2, B: 2, V: 3, K: 3, C: 4, G: 4 }[idMatch[1]];
+          if (level) return level;
+      }
+      const tagMatch = /%[ \t]*level[ \t]*:[ \t]*(VDC|NB|TH|VD|[1-4])\b/i.exec(block);
+      if (tagMatch) {
+          const tag = tagMatch[1].toUpperCase();
+          return { NB: 1, TH: 2, VD: 3, VDC: 4 }[tag] || Number(tag);
+      }
+      return undefined;
+  };
+
+  // Locate \choice / \choiceTF / \choiceTFt in a question and read its options.
+  // Options are brace-balanced groups (TikZ, nested braces...) read until the next
+  // non-brace token; "{...} %fixed" on the option's line marks it as pinned.
+  // text is the option as written; cleaned drops an "A." / "a)" label and puts \True first,
+  // which is what the shuffler writes back.
+  const parseChoiceOptions = (content: string) => {
+      const cmdMatch = /\\choice(?:TFt|TF)?(?![a-zA-Z])/.exec(content);
+      if (!cmdMatch) return null;
+      let cursor = cmdMatch.index + cmdMatch[0].length;
+
+      // 1. Check for Optional Argument [...]
+      let optionalArg = "";
+      while (cursor < content.length && /\s/.test(content[cursor])) cursor++;
+      if (content[cursor] === '[') {
+          const startOpt = cursor;
+          while (cursor < content.length && content[cursor] !== ']') cursor++;
+          if (cursor < content.length) {
+              cursor++; // Include ']'
+              optionalArg = content.substring(startOpt, cursor);
+          } else {
+              cursor = startOpt;
+          }
+      }
+
+      // 2. Extract Options {A}{B}{C}{D}...
+      const options: { text: string, cleaned: string, start: number, end: number, fixed: boolean }[] = [];
+      while (options.length <= MAX_OPTION_COUNT) {
+          while (cursor < content.length && /\s/.test(content[cursor])) cursor++;
+          if (content[cursor] !== '{') break;
+
+          let braceCount = 1;
+          const startContent = cursor;
+          cursor++;
+          while (cursor < content.length && braceCount > 0) {
+              if (content[cursor] === '{') braceCount++;
+              else if (content[cursor] === '}') braceCount--;
+              cursor++;
+          }
+          const text = content.substring(startContent, cursor);
+          let inner = text.substring(1, text.length - 1);
+          const hasTrue = inner.trim().startsWith('\\True');
+          if (hasTrue) inner = inner.replace('\\True', '').trim();
+          inner = inner.replace(/^[A-Fa-f][.)]\s*/, '');
+          const option = { text, cleaned: `{${hasTrue ? '\\True ' : ''}${inner}}`, start: startContent, end: cursor, fixed: false };
+          const fixedMarker = /^[ \t]*%[ \t]*fixed\b[^\n]*/.exec(content.substring(cursor));
+          if (fixedMarker) {
+              option.fixed = true;
+              cursor += fixedMarker[0].length;
+          }
+          options.push(option);
+      }
+
+      return { command: cmdMatch[0], start: cmdMatch.index, optionalArg, options, end: cursor };
+  };
+
   // --- LATEX PARSING & SHUFFLING LOGIC ---
   const parseLatexQuestions = (content: string) => {
       // Clean comments to avoid regex issues, but be careful not to break structure
       // For simplicity, we assume standard structure \begin{ex} ... \end{ex}
       
-      const questions: { 
-          fullContent: string, 
-          type: 'TN' | 'TF' | 'TL', // TN: Trắc nghiệm 4, TF: Đúng sai, TL: Tự luận
-          hasChoice: boolean,
-          id: string
-      }[] = [];
+      const questions: ExamQuestion[] = [];
+
+      // Question groups: "%group:begin" ... "%group:end" comment lines.
+      // Text between the begin marker and the first \begin{ex} is the shared stem.
+      const groups: { id: string, start: number, end: number, stem: string }[] = [];
+      const groupRegex = /^[ \t]*%[ \t]*group:begin.*$([\s\S]*?)^[ \t]*%[ \t]*group:end.*$/gm;
+      let groupMatch;
+      while ((groupMatch = groupRegex.exec(content)) !== null) {
+          const inner = groupMatch[1];
+          const firstEx = inner.indexOf('\\begin{ex}');
+          groups.push({
+              id: `g_${groups.length}`,
+              start: groupMatch.index,
+              end: groupMatch.index + groupMatch[0].length,
+              stem: (firstEx === -1 ? inner : inner.substring(0, firstEx)).trim()
+          });
+      }
 
       // Regex to find \begin{ex} ... \end{ex} blocks (non-greedy)
       const exRegex = /\\begin{ex}([\s\S]*?)\\end{ex}/g;
@@ -243,117 +996,24 @@ const App = () => {
               type = 'TL';
           }
 
+          const group = groups.find(g => match!.index >= g.start && match!.index < g.end);
+
           questions.push({
               fullContent: fullBlock,
               type,
               hasChoice,
-              id: `q_${count++}`
+              id: `q_${count++}`,
+              groupId: group?.id,
+              groupStem: group?.stem,
+              fixed: /^\\begin{ex}[^\n]*%[ \t]*fixed\b/.test(fullBlock),
+              level: parseQuestionLevel(fullBlock)
           });
       }
       return questions;
   };
 
-  const shuffleLatexContent = (originalContent: string, codes: string[], disableTFShuffle: boolean) => {
-      const questions = parseLatexQuestions(originalContent);
-      
-      // Group questions
-      const groupTN = questions.filter(q => q.type === 'TN');
-      const groupTF = questions.filter(q => q.type === 'TF');
-      const groupTL = questions.filter(q => q.type === 'TL');
-
-      // Helper to process a single question (shuffle choices inside)
-      const processQuestion = (q: typeof questions[0]) => {
-          let content = q.fullContent;
-          const cmdTN = '\\choice';
-          const cmdTF = content.includes('\\choiceTFt') ? '\\choiceTFt' : '\\choiceTF';
-          
-          let targetCmd = '';
-          if (q.type === 'TN') targetCmd = cmdTN;
-          else if (q.type === 'TF') targetCmd = cmdTF;
-
-          if (targetCmd) {
-              const idx = content.indexOf(targetCmd);
-              if (idx !== -1) {
-                  const preCmd = content.substring(0, idx);
-                  let cursor = idx + targetCmd.length;
-                  
-                  // 1. Check for Optional Argument [...]
-                  let optionalArg = "";
-                  // Skip whitespace carefully
-                  while(cursor < content.length && /\s/.test(content[cursor])) cursor++;
-                  
-                  if (content[cursor] === '[') {
-                      const startOpt = cursor;
-                      while(cursor < content.length && content[cursor] !== ']') cursor++;
-                      if (cursor < content.length) {
-                          cursor++; // Include ']'
-                          optionalArg = content.substring(startOpt, cursor);
-                      }
-                  }
-
-                  // 2. Extract Options {A}{B}{C}{D}
-                  const options: string[] = [];
-                  let optCount = 0;
-                  // We loop until we fail to find a starting brace or hit 4 (standard)
-                  // Using brace counting to handle nested braces (TikZ, etc.)
-                  
-                  while (optCount < 4) {
-                       // Skip whitespace
-                       while(cursor < content.length && /\s/.test(content[cursor])) cursor++;
-                       
-                       if (content[cursor] === '{') {
-                           let braceCount = 1;
-                           const startContent = cursor;
-                           cursor++;
-                           while(cursor < content.length && braceCount > 0) {
-                               if (content[cursor] === '{') braceCount++;
-                               else if (content[cursor] === '}') braceCount--;
-                               cursor++;
-                           }
-                           // Extracted option (including braces)
-                           let opt = content.substring(startContent, cursor);
-                           
-                           // --- CLEAN A., B., C., D. prefix if present for cleaner shuffle ---
-                           // Remove outer braces first to check
-                           let inner = opt.substring(1, opt.length - 1);
-                           let hasTrue = false;
-                           if (inner.trim().startsWith('\\True')) {
-                               hasTrue = true;
-                               inner = inner.replace('\\True', '').trim();
-                           }
-                           // Regex to remove "A.", "a)", "1." at start of content
-                           inner = inner.replace(/^[A-Da-d][.)]\s*/, '');
-                           opt = `{${hasTrue ? '\\True ' : ''}${inner}}`;
-                           // ---------------------------------------------------------------------------
-
-                           options.push(opt);
-                           optCount++;
-                       } else {
-                           // No more braces immediately found -> break
-                           break;
-                       }
-                  }
-
-                  const postCmd = content.substring(cursor);
-
-                  // 3. Shuffle logic
-                  if (options.length > 0) {
-                      let shuffledOpts = options;
-                      if (q.type === 'TN') {
-                          shuffledOpts = shuffleArray(options);
-                      } else if (q.type === 'TF' && !disableTFShuffle) {
-                          shuffledOpts = shuffleArray(options);
-                      }
-                      
-                      // 4. Reconstruct
-                      content = `${preCmd}${targetCmd}${optionalArg}\n${shuffledOpts.join('\n')}${postCmd}`;
-                  }
-              }
-          }
-          return content;
-      };
-
-      let finalLatex = `\\documentclass[12pt,a4paper]{article}
+  // Built-in ex_test preamble (everything before \\begin{document})
+  const buildDefaultPreamble = (header: ExamHeader) => `\\documentclass[12pt,a4paper]{article}
 \\usepackage[light,condensed,math]{anttor}
 \\everymath{\\rm}
 %Các gói
@@ -388,11 +1048,11 @@ const App = () => {
 \\newcommand{\\hetde}{\\centerline{\\rule[0.5ex]{2cm}{1pt} HẾT \\rule[0.5ex]{2cm}{1pt}}}
 %
 %Tiêu đề
-\\newcommand{\\tentruong}{}
-\\newcommand{\\tengv}{}
-\\newcommand{\\tenkythi}{ĐỀ ÔN TẬP THI HỌC KÌ 1}
-\\newcommand{\\tenmonthi}{MÔN: VẬT LÍ}
-\\newcommand{\\thoigian}{50}
+\\newcommand{\\tentruong}{${escapeLatex(header.school)}}
+\\newcommand{\\tengv}{${escapeLatex(header.teacher)}}
+\\newcommand{\\tenkythi}{${escapeLatex(header.examName)}}
+\\newcommand{\\tenmonthi}{MÔN: ${escapeLatex(header.subject)}}
+\\newcommand{\\thoigian}{${escapeLatex(header.duration)}}
 \\newcommand{\\tieude}[3]{
 \\noindent
 %Trái
@@ -434,30 +1094,235 @@ const App = () => {
 \\newcommand{\\tieuded}[1]{\\noindent\\textbf{PHẦN #1. PHẦN TỰ LUẬN}}
 \\newenvironment{dapanMyLT}{}{}
 %\\usepackage{verbatim}\\renewenvironment{dapanMyLT}{\\comment}{\\endcomment}%Ẩn đáp án
-\\begin{document}
 `;
 
-      codes.forEach((code) => {
-          const shuffledTN = shuffleArray(groupTN).map(processQuestion);
-          const shuffledTF = shuffleArray(groupTF).map(processQuestion);
-          const shuffledTL = shuffleArray(groupTL).map(processQuestion);
-          
-          finalLatex += `
-\\tieude{\\pageref{${code}}}{18}{${code}}
-\\chantrang{\\pageref{${code}}}{${code}}
-\\setcounter{page}{1}
+  // Everything before \\begin{document} in an uploaded .tex, or null if it is only a body
+  const extractPreamble = (content: string) => {
+      const idx = content.indexOf('\\begin{document}');
+      if (idx === -1) return null;
+      const preamble = content.substring(0, idx);
+      return preamble.includes('\\documentclass') ? preamble : null;
+  };
 
-% --- PHẦN 1: TRẮC NGHIỆM ---
-\\tieudea{I}{${shuffledTN.length}}
-\\setcounter{ex}{0}
-\\Opensolutionfile{ansbook}[ansbookMyLTTN${code}]
-\\Opensolutionfile{ans}[ansMyLTTN${code}]
-${shuffledTN.join('\n')}
-\\Closesolutionfile{ans}
-\\Closesolutionfile{ansbook}
+  // Built-in preamble first, then the source one without \\documentclass and without
+  // packages already loaded. \\newcommand becomes \\providecommand so names the
+  // built-in preamble already defines (and the shuffled body relies on) do not clash.
+  const mergePreambles = (builtin: string, source: string) => {
+      const packageRegex = /\\(?:usepackage|RequirePackage)\s*(\[[^\]]*\])?\s*\{([^}]*)\}/g;
+      const loaded = new Set<string>();
+      let match;
+      const builtinCode = builtin.replace(/(^|[^\\])%.*$/gm, '$1');
+      while ((match = packageRegex.exec(builtinCode)) !== null) {
+          match[2].split(',').forEach(p => loaded.add(p.trim()));
+      }
 
-% --- PHẦN 2: ĐÚNG SAI ---
-\\tieudeb{II}{${shuffledTF.length}}
+      const merged = source
+          .replace(/^[ \t]*\\documentclass(\[[^\]]*\])?\{[^}]*\}[ \t]*\r?\n?/m, '')
+          .replace(packageRegex, (full, opts: string | undefined, names: string) => {
+              const remaining = names.split(',').map(p => p.trim()).filter(p => p && !loaded.has(p));
+              remaining.forEach(p => loaded.add(p));
+              if (remaining.length === 0) return `% ${full.trim()} (đã có trong preamble mặc định)`;
+              return `\\usepackage${opts || ''}{${remaining.join(',')}}`;
+          })
+          .replace(/\\newcommand(?![a-zA-Z])/g, '\\providecommand');
+
+      return `${builtin}%\n% --- Preamble từ file gốc ---\n${merged.trim()}\n`;
+  };
+
+  // Consecutive questions of the same group form one unit that moves together
+  const toUnits = <T extends ExamQuestion>(group: T[]) => {
+      const units: T[][] = [];
+      group.forEach(q => {
+          const last = units[units.length - 1];
+          if (q.groupId && last && last[0].groupId === q.groupId) last.push(q);
+          else units.push([q]);
+      });
+      return units;
+  };
+
+  // Balanced mode: free units are ordered NB -> TH -> VD -> VDC (untagged last) and
+  // shuffled only inside their level band, so every code has the same level profile
+  const arrangeByLevel = <T extends ExamQuestion>(units: T[][], isFixed: (unit: T[]) => boolean, random: () => number) => {
+      const bands = new Map<number, T[][]>();
+      units.filter(u => !isFixed(u)).forEach(u => {
+          const level = u[0].level ?? LEVEL_NAMES.length + 1;
+          bands.set(level, [...(bands.get(level) || []), u]);
+      });
+      const arranged = Array.from(bands.keys())
+          .sort((a, b) => a - b)
+          .flatMap(level => shuffleArray(bands.get(level)!, random));
+      let k = 0;
+      return units.map(u => isFixed(u) ? u : arranged[k++]);
+  };
+
+  const balanceLevelsWarning = 'Chế độ cân bằng mức độ: không tìm thấy nhãn mức độ nào (%[ID ex_test] hoặc %level:...), các câu được trộn bình thường.';
+
+  const shuffleLatexContent = (originalContent: string, codes: string[], options: ShuffleOptions) => {
+      const { disableTFShuffle, seed, header } = options;
+      const questions = parseLatexQuestions(originalContent);
+      const warnings = new Set<string>(); // Deduped: processQuestion runs once per code
+      
+      // Every question goes to the part of its own type. A group mixing types is split there,
+      // each piece keeping the shared stem, so no TF question ends up under PHẦN I.
+      new Set(questions.map(q => q.groupId).filter(Boolean)).forEach(groupId => {
+          const members = questions.filter(q => q.groupId === groupId);
+          if (new Set(members.map(q => q.type)).size > 1) {
+              warnings.add(`Nhóm câu ${members[0].id}–${members[members.length - 1].id} có nhiều loại câu (${Array.from(new Set(members.map(q => q.type))).join(', ')}): được tách theo từng phần, dữ kiện chung lặp lại ở mỗi phần.`);
+          }
+      });
+
+      // Group questions
+      const groupTN = questions.filter(q => q.type === 'TN');
+      const groupTF = questions.filter(q => q.type === 'TF');
+      const groupTL = questions.filter(q => q.type === 'TL');
+
+      if (options.balanceLevels && !questions.some(q => q.level)) {
+          warnings.add(balanceLevelsWarning);
+      }
+
+      // Read the value of \shortans[...]{...} (brace-balanced)
+      const extractShortAnswer = (content: string) => {
+          const match = /\\shortans\s*(\[[^\]]*\])?\s*\{/.exec(content);
+          if (!match) return "";
+          let cursor = match.index + match[0].length;
+          const start = cursor;
+          let braceCount = 1;
+          while (cursor < content.length && braceCount > 0) {
+              if (content[cursor] === '{') braceCount++;
+              else if (content[cursor] === '}') braceCount--;
+              cursor++;
+          }
+          return content.substring(start, cursor - 1).trim();
+      };
+
+      // Helper to process a single question (shuffle choices inside)
+      // Returns the rebuilt block and the answer after shuffling
+      const processQuestion = (q: typeof questions[0], random: () => number) => {
+          let content = q.fullContent;
+          let answer = q.type === 'TL' ? extractShortAnswer(content) : "";
+          let optionOrder = "";
+
+          const parsed = q.type === 'TL' ? null : parseChoiceOptions(content);
+          if (parsed) {
+              const { command: targetCmd, optionalArg } = parsed;
+              const preCmd = content.substring(0, parsed.start);
+              const postCmd = content.substring(parsed.end);
+              // Labels stripped and \True first so the shuffled options read cleanly
+              const options = parsed.options.map(o => o.cleaned);
+              const fixedOptions = parsed.options.map(o => o.fixed);
+              const questionLabel = `Câu ${q.id} (${q.type === 'TN' ? 'Trắc nghiệm' : 'Đúng/Sai'})`;
+
+              if (options.length > MAX_OPTION_COUNT) {
+                  // Too many brace groups: probably not options at all, leave the question untouched
+                  warnings.add(`${questionLabel}: có hơn ${MAX_OPTION_COUNT} phương án, câu này được giữ nguyên không trộn.`);
+                  return { content, answer, optionOrder };
+              }
+              if (options.length === 0) {
+                  warnings.add(`${questionLabel}: không tìm thấy phương án sau ${targetCmd}.`);
+              } else if (options.length !== STANDARD_OPTION_COUNT) {
+                  warnings.add(`${questionLabel}: có ${options.length} phương án (chuẩn là ${STANDARD_OPTION_COUNT}).`);
+              }
+
+              // Shuffle logic
+              if (options.length > 0) {
+                  // Shuffle indices so the permutation can be reported in the mapping table
+                  let order = options.map((_, i) => i);
+                  if (q.type === 'TN') {
+                      order = shuffleWithFixed(order, i => fixedOptions[i], random);
+                  } else if (q.type === 'TF' && !disableTFShuffle) {
+                      order = shuffleWithFixed(order, i => fixedOptions[i], random);
+                  }
+                  const shuffledOpts = order.map(i => options[i]);
+                  const letters = order.map(i => String.fromCharCode(65 + i)).join('');
+                  optionOrder = q.type === 'TF' ? letters.toLowerCase() : letters;
+                  
+                  // Reconstruct
+                  const optionLines = order.map(i => fixedOptions[i] ? `${options[i]} %fixed` : options[i]);
+                  content = `${preCmd}${targetCmd}${optionalArg}\n${optionLines.join('\n')}${postCmd}`;
+
+                  // Track where \True landed
+                  const trueLetters = shuffledOpts
+                      .map((opt, i) => opt.startsWith('{\\True') ? String.fromCharCode(65 + i) : '')
+                      .filter(l => l);
+                  answer = q.type === 'TF'
+                      ? trueLetters.join('').toLowerCase()
+                      : trueLetters.join('');
+              }
+          }
+          return { content, answer, optionOrder };
+      };
+
+      const answerKey: AnswerKeyEntry[] = [];
+      const questionMap: QuestionMapEntry[] = [];
+
+      const sourcePreamble = extractPreamble(originalContent);
+      let preamble = buildDefaultPreamble(header);
+      if (options.preambleMode !== 'builtin') {
+          if (!sourcePreamble) {
+              preamble = `% Không tìm thấy \\begin{document} trong file gốc - dùng preamble mặc định\n${preamble}`;
+          } else if (options.preambleMode === 'source') {
+              preamble = sourcePreamble;
+          } else {
+              preamble = mergePreambles(preamble, sourcePreamble);
+          }
+      }
+
+      let finalLatex = `${preamble}\\begin{document}
+% Seed trộn đề: ${seed}
+`;
+
+      codes.forEach((code) => {
+          const pageCount = header.pageCount.trim() ? escapeLatex(header.pageCount.trim()) : `\\pageref{${code}}`;
+          // Each code gets its own stream so rebuilding one code never depends on the others
+          const random = createSeededRandom(hashSeed(`${seed}::${code}`));
+          const buildPart = (group: typeof questions) => {
+              // A unit containing a %fixed question keeps its position in the part
+              const isFixedUnit = (unit: typeof questions) => unit.some(q => q.fixed);
+              const units = toUnits(group);
+              const ordered = options.balanceLevels
+                  ? arrangeByLevel(units, isFixedUnit, random)
+                  : shuffleWithFixed(units, isFixedUnit, random);
+              const blocks: string[] = [];
+              ordered.forEach(unit => unit.forEach((q, posInUnit) => {
+                  const number = blocks.length + 1;
+                  const processed = processQuestion(q, random);
+                  answerKey.push({ code, number, type: q.type, originalId: q.id, answer: processed.answer });
+                  questionMap.push({
+                      code,
+                      type: q.type,
+                      number,
+                      originalNumber: group.indexOf(q) + 1,
+                      originalId: q.id,
+                      optionOrder: processed.optionOrder
+                  });
+                  // Shared stem goes right before the first question; {{tu}}/{{den}} become its question range
+                  const stem = posInUnit === 0 && q.groupStem
+                      ? q.groupStem.replace(/\{\{tu\}\}/g, String(number)).replace(/\{\{den\}\}/g, String(number + unit.length - 1)) + '\n'
+                      : '';
+                  blocks.push(stem + processed.content);
+              }));
+              return blocks;
+          };
+          const shuffledTN = buildPart(groupTN);
+          const shuffledTF = buildPart(groupTF);
+          const shuffledTL = buildPart(groupTL);
+          
+          finalLatex += `
+\\tieude{${pageCount}}{${pageCount}}{${code}}
+\\chantrang{${pageCount}}{${code}}
+\\setcounter{page}{1}
+
+% --- PHẦN 1: TRẮC NGHIỆM ---
+\\tieudea{I}{${shuffledTN.length}}
+\\setcounter{ex}{0}
+\\Opensolutionfile{ansbook}[ansbookMyLTTN${code}]
+\\Opensolutionfile{ans}[ansMyLTTN${code}]
+${shuffledTN.join('\n')}
+\\Closesolutionfile{ans}
+\\Closesolutionfile{ansbook}
+
+% --- PHẦN 2: ĐÚNG SAI ---
+\\tieudeb{II}{${shuffledTF.length}}
 \\setcounter{ex}{0}
 \\Opensolutionfile{ansbook}[ansbookMyLTTF${code}]
 \\Opensolutionfile{ans}[ansMyLTTF${code}]
@@ -465,74 +1330,2170 @@ ${shuffledTF.join('\n')}
 \\Closesolutionfile{ans}
 \\Closesolutionfile{ansbook}
 
-% --- PHẦN 3: TỰ LUẬN/NGẮN ---
-\\tieuded{III}
-\\setcounter{ex}{0}
-\\Opensolutionfile{ansbook}[ansbookMyLTTL${code}]
-\\Opensolutionfile{ans}[ansMyLTTL${code}]
-${shuffledTL.join('\n')}
-\\Closesolutionfile{ans}
-\\Closesolutionfile{ansbook}
+% --- PHẦN 3: TỰ LUẬN/NGẮN ---
+\\tieuded{III}
+\\setcounter{ex}{0}
+\\Opensolutionfile{ansbook}[ansbookMyLTTL${code}]
+\\Opensolutionfile{ans}[ansMyLTTL${code}]
+${shuffledTL.join('\n')}
+\\Closesolutionfile{ans}
+\\Closesolutionfile{ansbook}
+
+\\hetde
+\\label{${code}}
+\\newpage
+`;
+      });
+
+      // --- CREATE ANSWER KEYS FOR ALL CODES ---
+      finalLatex += `
+\\setcounter{page}{1}
+\\rfoot{Trang \\thepage $-$ Đáp án các mã đề}
+\\foreach\\i in {${codes.join(',')}}{
+\\begin{center}
+\\bf ĐÁP ÁN PHẦN TRẮC NGHIỆM 4 PHƯƠNG ÁN - MÃ ĐỀ \\i\\vspace{12pt}
+\\inputansbox[1]{9}{ansMyLTTN\\i}
+\\bf ĐÁP ÁN PHẦN TRẮC NGHIỆM ĐÚNG SAI
+\\inputansbox[2]{2}{ansMyLTTF\\i}
+\\bf ĐÁP ÁN PHẦN TỰ LUẬN
+\\inputansbox[3]{6}{ansMyLTTL\\i}
+\\end{center}
+}
+`;
+
+      // --- OPTIONAL: MAPPING TABLE (BẢNG ĐỐI CHIẾU) ---
+      if (options.includeMapAppendix) {
+          const partNames: Record<QuestionMapEntry['type'], string> = { TN: 'I', TF: 'II', TL: 'III' };
+          codes.forEach((code) => {
+              const rows = questionMap
+                  .filter(e => e.code === code)
+                  .map(e => `${partNames[e.type]} & ${e.number} & ${e.originalNumber} & ${e.originalId.replace('_', '\\_')} & ${e.optionOrder || '--'} \\\\ \\hline`);
+              finalLatex += `
+\\newpage
+\\rfoot{Trang \\thepage $-$ Bảng đối chiếu}
+\\begin{center}
+\\bf BẢNG ĐỐI CHIẾU - MÃ ĐỀ ${code}\\vspace{6pt}
+
+{\\small
+\\begin{tabular}{|c|c|c|c|c|}
+\\hline
+Phần & Câu & Câu gốc & Mã câu & Thứ tự phương án \\\\ \\hline
+${rows.join('\n')}
+\\end{tabular}}
+\\end{center}
+`;
+          });
+      }
+
+      finalLatex += `\\end{document}
+`;
+      
+      return { latex: finalLatex, answerKey, questionMap, warnings: Array.from(warnings) };
+  };
+
+  // --- WORD EXAM SHUFFLE ---
+
+  const escapeHtml = (text: string) => text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+
+  // Minimal .zip reader (central directory + DecompressionStream), enough for the parts of a .docx
+  const readZipEntries = async (buffer: ArrayBuffer) => {
+      const view = new DataView(buffer);
+      const bytes = new Uint8Array(buffer);
+      let eocd = -1;
+      for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 65557); i--) {
+          if (view.getUint32(i, true) === 0x06054b50) {
+              eocd = i;
+              break;
+          }
+      }
+      if (eocd === -1) throw new Error("File không đúng định dạng .docx (không đọc được nội dung nén).");
+
+      const entries = new Map<string, Uint8Array>();
+      const decoder = new TextDecoder();
+      const entryCount = view.getUint16(eocd + 10, true);
+      let cursor = view.getUint32(eocd + 16, true);
+      for (let n = 0; n < entryCount && view.getUint32(cursor, true) === 0x02014b50; n++) {
+          const method = view.getUint16(cursor + 10, true);
+          const compressedSize = view.getUint32(cursor + 20, true);
+          const nameLength = view.getUint16(cursor + 28, true);
+          const localOffset = view.getUint32(cursor + 42, true);
+          const name = decoder.decode(bytes.subarray(cursor + 46, cursor + 46 + nameLength));
+          cursor += 46 + nameLength + view.getUint16(cursor + 30, true) + view.getUint16(cursor + 32, true);
+
+          const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+          const data = bytes.slice(dataStart, dataStart + compressedSize);
+          if (method === 0) {
+              entries.set(name, data);
+          } else if (method === 8) {
+              const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+              entries.set(name, new Uint8Array(await new Response(stream).arrayBuffer()));
+          }
+      }
+      return entries;
+  };
+
+  // word/document.xml -> simple HTML: paragraphs, tables, b/i/u/sup/sub, embedded images.
+  // Equations keep their OMML in data-omml and show their plain text.
+  const docxToHtml = async (buffer: ArrayBuffer) => {
+      const entries = await readZipEntries(buffer);
+      const decoder = new TextDecoder();
+      const parser = new DOMParser();
+      const documentXml = entries.get('word/document.xml');
+      if (!documentXml) throw new Error("Không tìm thấy word/document.xml trong file .docx.");
+      const doc = parser.parseFromString(decoder.decode(documentXml), 'application/xml');
+
+      const images = new Map<string, string>();
+      const relsXml = entries.get('word/_rels/document.xml.rels');
+      if (relsXml) {
+          const rels = parser.parseFromString(decoder.decode(relsXml), 'application/xml');
+          Array.from(rels.getElementsByTagName('Relationship')).forEach(rel => {
+              const target = (rel.getAttribute('Target') || '').replace(/^\/?(word\/)?/, '');
+              const data = entries.get(`word/${target}`);
+              if (!data || !/\.(png|jpe?g|gif|bmp)$/i.test(target)) return;
+              let binary = '';
+              for (let i = 0; i < data.length; i += 0x8000) binary += String.fromCharCode(...data.subarray(i, i + 0x8000));
+              const extension = target.split('.').pop()!.toLowerCase().replace('jpg', 'jpeg');
+              images.set(rel.getAttribute('Id') || '', `data:image/${extension};base64,${btoa(binary)}`);
+          });
+      }
+
+      const childrenNamed = (el: Element, name: string) => Array.from(el.children).filter(c => c.localName === name);
+      const propertyOn = (props: Element | undefined, name: string) => {
+          const prop = props && childrenNamed(props, name)[0];
+          return !!prop && !['0', 'false', 'none'].includes(prop.getAttribute('w:val') || '');
+      };
+
+      const runHtml = (run: Element) => {
+          let html = '';
+          Array.from(run.children).forEach(child => {
+              if (child.localName === 't') html += escapeHtml(child.textContent || '');
+              else if (child.localName === 'tab') html += '&emsp;';
+              else if (child.localName === 'br') html += '<br/>';
+              else if (child.localName === 'drawing' || child.localName === 'pict') {
+                  const blip = child.getElementsByTagName('a:blip')[0] || child.getElementsByTagName('v:imagedata')[0];
+                  const src = blip && images.get(blip.getAttribute('r:embed') || blip.getAttribute('r:id') || '');
+                  if (src) html += `<img src="${src}"/>`;
+              }
+          });
+          if (!html) return '';
+          const props = childrenNamed(run, 'rPr')[0];
+          const vertAlign = props && childrenNamed(props, 'vertAlign')[0]?.getAttribute('w:val');
+          if (vertAlign === 'superscript') html = `<sup>${html}</sup>`;
+          if (vertAlign === 'subscript') html = `<sub>${html}</sub>`;
+          if (propertyOn(props, 'u')) html = `<u>${html}</u>`;
+          if (propertyOn(props, 'i')) html = `<i>${html}</i>`;
+          if (propertyOn(props, 'b')) html = `<b>${html}</b>`;
+          return html;
+      };
+
+      const inlineHtml = (el: Element): string => Array.from(el.children).map(child => {
+          if (child.localName === 'r') return runHtml(child);
+          if (child.localName === 'oMath' || child.localName === 'oMathPara') {
+              const text = Array.from(child.getElementsByTagName('m:t')).map(t => t.textContent).join('');
+              return `<span class="omml" data-omml="${escapeHtml(new XMLSerializer().serializeToString(child))}">${escapeHtml(text)}</span>`;
+          }
+          if (['hyperlink', 'ins', 'smartTag', 'sdt', 'sdtContent', 'fldSimple'].includes(child.localName)) return inlineHtml(child);
+          return '';
+      }).join('');
+
+      const blockHtml = (el: Element): string => {
+          if (el.localName === 'p') {
+              const props = childrenNamed(el, 'pPr')[0];
+              const align = props && childrenNamed(props, 'jc')[0]?.getAttribute('w:val');
+              return `<p${align === 'center' || align === 'right' ? ` style="text-align:${align}"` : ''}>${inlineHtml(el)}</p>`;
+          }
+          if (el.localName === 'tbl') {
+              const rows = childrenNamed(el, 'tr').map(tr =>
+                  `<tr>${childrenNamed(tr, 'tc').map(tc => `<td>${Array.from(tc.children).map(blockHtml).join('')}</td>`).join('')}</tr>`);
+              return `<table>${rows.join('')}</table>`;
+          }
+          if (el.localName === 'sdt' || el.localName === 'sdtContent') return Array.from(el.children).map(blockHtml).join('\n');
+          return '';
+      };
+
+      const body = doc.getElementsByTagName('w:body')[0];
+      if (!body) throw new Error("File .docx không có nội dung.");
+      return Array.from(body.children).map(blockHtml).filter(Boolean).join('\n');
+  };
+
+  // Paragraph-level blocks of the HTML: wrappers are flattened, loose inline content is split at <br>,
+  // and option tables ("A." / "a)" in every cell) become one block per cell
+  const collectWordBlocks = (container: Element): HTMLElement[] => {
+      const blocks: HTMLElement[] = [];
+      let loose: HTMLElement | null = null;
+      const flush = () => {
+          if (loose && (loose.textContent?.trim() || loose.querySelector('img'))) blocks.push(loose);
+          loose = null;
+      };
+      Array.from(container.childNodes).forEach(node => {
+          const el = node.nodeType === Node.ELEMENT_NODE ? node as HTMLElement : null;
+          if (el && ['DIV', 'SECTION', 'ARTICLE', 'MAIN', 'CENTER'].includes(el.tagName)) {
+              flush();
+              blocks.push(...collectWordBlocks(el));
+          } else if (el && el.tagName === 'TABLE') {
+              flush();
+              const cells = Array.from(el.querySelectorAll('td, th')) as HTMLElement[];
+              const isOptionTable = cells.length > 1 && cells.every(c => /^\s*([A-F]\.|[a-f]\))/.test(c.textContent || ''));
+              blocks.push(...(isOptionTable ? cells : [el]));
+          } else if (el && /^(P|H[1-6]|UL|OL|BLOCKQUOTE|PRE)$/.test(el.tagName)) {
+              flush();
+              blocks.push(el);
+          } else if (el && el.tagName === 'BR') {
+              flush();
+          } else {
+              if (!loose) loose = container.ownerDocument.createElement('p');
+              loose.appendChild(node.cloneNode(true));
+          }
+      });
+      flush();
+      return blocks;
+  };
+
+  // "Câu N." starts a question, "A." ... (underlined letter = correct) a TN option,
+  // "a)" ... a TF statement; a question without options is TL. Text before the first
+  // question and after "PHẦN ..." headings (exam header, part instructions) is dropped.
+  // "%group:begin" / "%group:end" paragraphs work as in LaTeX: what sits between the
+  // begin marker and the first question is the shared stem.
+  const parseWordQuestions = (html: string) => {
+      const FIXED_MARKER = /%[ \t]*fixed\b/i;
+      const body = new DOMParser().parseFromString(html, 'text/html').body;
+      const questionBlocks: HTMLElement[][] = [];
+      const questionGroups: (string | undefined)[] = [];
+      const groupStems = new Map<string, string[]>();
+      let openGroup: string | null = null;
+      let current: HTMLElement[] | null = null;
+      collectWordBlocks(body).forEach(block => {
+          const text = block.textContent || '';
+          if (/^\s*%[ \t]*group:begin/i.test(text)) {
+              openGroup = `g_${groupStems.size}`;
+              groupStems.set(openGroup, []);
+              current = null;
+          } else if (/^\s*%[ \t]*group:end/i.test(text)) {
+              openGroup = null;
+              current = null;
+          } else if (/^\s*PHẦN\s+(III|II|I|[1-3])(?![a-zA-Z])/i.test(text)) current = null;
+          else if (/^\s*Câu\s*\d+\s*[.:]/i.test(text)) {
+              questionBlocks.push(current = [block]);
+              questionGroups.push(openGroup ?? undefined);
+          }
+          else if (current) current.push(block);
+          else if (openGroup) groupStems.get(openGroup)!.push(block.outerHTML);
+      });
+
+      const fragmentHtml = (block: HTMLElement, start: number, end: number) => {
+          const range = start < end ? createEditorRange(block, start, end) : null;
+          if (!range) return '';
+          const holder = document.createElement('div');
+          holder.appendChild(range.cloneContents());
+          return holder.innerHTML.trim();
+      };
+      const isUnderlinedAt = (block: HTMLElement, offset: number) => {
+          const walker = document.createTreeWalker(block, NodeFilter.SHOW_TEXT);
+          let el: Node | null;
+          let passed = 0;
+          while ((el = walker.nextNode()) && passed + (el.textContent?.length || 0) <= offset) passed += el.textContent?.length || 0;
+          while (el && el !== block) {
+              if (el instanceof HTMLElement && (el.tagName === 'U' || /underline/.test(el.style.textDecoration + el.style.textDecorationLine))) return true;
+              el = el.parentNode;
+          }
+          return false;
+      };
+
+      return questionBlocks.map((blocks, qIndex): WordQuestion => {
+          const fullContent = blocks.map(b => b.outerHTML).join('\n');
+          const stem: string[] = [];
+          const options: WordQuestion['options'] = [];
+          let style: 'TN' | 'TF' | null = null;
+          let answer = '';
+
+          blocks.forEach((block, bIndex) => {
+              const text = block.textContent || '';
+              // Text offset where this block's content starts ("Câu N." is skipped)
+              const contentStart = bIndex === 0 ? /^\s*Câu\s*\d+\s*[.:]\s*/i.exec(text)![0].length : 0;
+              if (!style) {
+                  const rest = text.substring(contentStart);
+                  if (/^\s*A\./.test(rest)) style = 'TN';
+                  else if (/^\s*a\)/.test(rest)) style = 'TF';
+                  else {
+                      const answerLine = /^\s*(?:Đáp\s*án|ĐS)\s*[:.]\s*(.+)$/i.exec(rest);
+                      if (answerLine && bIndex > 0) answer = answerLine[1].trim();
+                      else if (bIndex > 0) stem.push(block.outerHTML);
+                      else {
+                          // Drop the "Câu N." text and a "%fixed" marker but keep the paragraph's markup, images included
+                          const first = block.cloneNode(true) as HTMLElement;
+                          const walker = document.createTreeWalker(first, NodeFilter.SHOW_TEXT);
+                          let remaining = contentStart;
+                          let node: Node | null;
+                          while ((node = walker.nextNode())) {
+                              const value = node.textContent || '';
+                              node.textContent = value.substring(Math.min(remaining, value.length)).replace(FIXED_MARKER, '');
+                              remaining -= Math.min(remaining, value.length);
+                          }
+                          if (first.textContent?.trim() || first.querySelector('img')) stem.push(first.outerHTML);
+                      }
+                      return;
+                  }
+              }
+
+              // Option markers in sequence: "A." then "B." ... anywhere after whitespace
+              const markers: number[] = [];
+              let searchFrom = Math.max(0, contentStart - 1); // Keep the whitespace before "A."
+              while (options.length + markers.length < MAX_OPTION_COUNT) {
+                  const index = options.length + markers.length;
+                  const marker = style === 'TN' ? `${String.fromCharCode(65 + index)}\\.` : `${String.fromCharCode(97 + index)}\\)`;
+                  const regex = new RegExp(`(^|\\s)${marker}`, 'g');
+                  regex.lastIndex = searchFrom;
+                  const m = regex.exec(text);
+                  if (!m) break;
+                  markers.push(m.index + m[1].length);
+                  searchFrom = m.index + m[0].length;
+              }
+              if (markers.length === 0) {
+                  // Continuation of the previous option (figure, second line...)
+                  if (options.length > 0) options[options.length - 1].html.push(block.outerHTML);
+                  else stem.push(block.outerHTML);
+                  return;
+              }
+              const leading = fragmentHtml(block, contentStart, markers[0]);
+              if (leading.replace(/<[^>]*>|&emsp;|\s/g, '') && options.length > 0) options[options.length - 1].html.push(leading);
+              markers.forEach((start, i) => {
+                  const end = i + 1 < markers.length ? markers[i + 1] : text.length;
+                  const contentOffset = start + 2 + (/^\s*/.exec(text.substring(start + 2))![0].length);
+                  const fixed = FIXED_MARKER.test(text.substring(start + 2, end));
+                  const optionHtml = fragmentHtml(block, start + 2, end);
+                  options.push({
+                      html: [fixed ? optionHtml.replace(FIXED_MARKER, '').trim() : optionHtml],
+                      fixed,
+                      correct: isUnderlinedAt(block, start) || (contentOffset < end && isUnderlinedAt(block, contentOffset) && isUnderlinedAt(block, end - 1))
+                  });
+              });
+          });
+
+          const type = style || 'TL';
+          const groupId = questionGroups[qIndex];
+          return {
+              fullContent,
+              type,
+              hasChoice: type === 'TN',
+              id: `q_${qIndex}`,
+              groupId,
+              groupStem: groupId && groupStems.get(groupId)!.join('\n'),
+              fixed: FIXED_MARKER.test(blocks[0].textContent || ''),
+              level: parseQuestionLevel(fullContent),
+              stem,
+              options,
+              answer
+          };
+      });
+  };
+
+  // Same seeding, part order and answer-key conventions as shuffleLatexContent; produces one
+  // HTML document per code plus an answer-key document
+  const shuffleWordContent = (html: string, codes: string[], options: ShuffleOptions) => {
+      const { disableTFShuffle, seed, header } = options;
+      const questions = parseWordQuestions(html);
+      if (questions.length === 0) throw new Error('Không tìm thấy câu hỏi nào (mỗi câu cần bắt đầu bằng "Câu 1.", "Câu 2."...).');
+
+      const warnings: string[] = [];
+      if (options.balanceLevels && !questions.some(q => q.level)) warnings.push(balanceLevelsWarning);
+      questions.forEach((q, i) => {
+          const label = `Câu ${i + 1} (${q.type === 'TN' ? 'Trắc nghiệm' : q.type === 'TF' ? 'Đúng/Sai' : 'Trả lời ngắn'})`;
+          const correctCount = q.options.filter(o => o.correct).length;
+          if (q.type !== 'TL' && q.options.length !== STANDARD_OPTION_COUNT) warnings.push(`${label}: có ${q.options.length} phương án (chuẩn là ${STANDARD_OPTION_COUNT}).`);
+          if (q.type === 'TN' && correctCount !== 1) warnings.push(`${label}: có ${correctCount} phương án được gạch chân (cần đúng 1).`);
+      });
+
+      const groups = (['TN', 'TF', 'TL'] as const).map(type => questions.filter(q => q.type === type));
+      const partTitles = ['Câu trắc nghiệm nhiều phương án lựa chọn.', 'Câu trắc nghiệm đúng sai.', 'Câu trắc nghiệm trả lời ngắn.'];
+      const romans = ['I', 'II', 'III'];
+      const answerKey: AnswerKeyEntry[] = [];
+      const questionMap: QuestionMapEntry[] = [];
+      const answerTables: string[] = [];
+
+      const headerHtml = (code: string) => [
+          header.school && `<p style="text-align:center"><b>${escapeHtml(header.school)}</b></p>`,
+          `<p style="text-align:center"><b>${escapeHtml(header.examName)}</b></p>`,
+          `<p style="text-align:center"><b>MÔN: ${escapeHtml(header.subject)}</b> - Thời gian làm bài: ${escapeHtml(header.duration)} phút</p>`,
+          `<p style="text-align:right"><b>Mã đề: ${escapeHtml(code)}</b></p>`
+      ].filter(Boolean).join('\n');
+
+      // Answer rows in chunks of 10 questions so the table fits the page width
+      const answerTableHtml = (title: string, answers: string[]) => {
+          const chunks: string[] = [];
+          for (let i = 0; i < answers.length; i += 10) {
+              const slice = answers.slice(i, i + 10);
+              chunks.push(`<table><tr><th>Câu</th>${slice.map((_, k) => `<th>${i + k + 1}</th>`).join('')}</tr><tr><td>Đáp án</td>${slice.map(a => `<td>${escapeHtml(a)}</td>`).join('')}</tr></table>`);
+          }
+          return `<p><b>${title}</b></p>\n${chunks.join('\n')}`;
+      };
+
+      const docs = codes.map(code => {
+          const random = createSeededRandom(hashSeed(`${seed}::${code}`));
+          const sections: string[] = [];
+          const codeTables: string[] = [];
+          let partIndex = 0;
+
+          groups.forEach((group, g) => {
+              if (group.length === 0) return;
+              const displayAnswers: string[] = [];
+              // Same units as the LaTeX path: a %group moves as a block, a %fixed question or unit stays put
+              const units = toUnits(group);
+              const isFixedUnit = (unit: WordQuestion[]) => unit.some(q => q.fixed);
+              const ordered = options.balanceLevels
+                  ? arrangeByLevel(units, isFixedUnit, random)
+                  : shuffleWithFixed(units, isFixedUnit, random);
+              const blocks = ordered.flatMap(unit => unit.map((q, posInUnit) => ({ q, posInUnit, unitSize: unit.length }))).map(({ q, posInUnit, unitSize }, i) => {
+                  const number = i + 1;
+                  let order = q.options.map((_, k) => k);
+                  if (q.type === 'TN' || (q.type === 'TF' && !disableTFShuffle)) order = shuffleWithFixed(order, k => q.options[k].fixed, random);
+                  const shuffled = order.map(k => q.options[k]);
+                  const letters = order.map(k => String.fromCharCode(65 + k)).join('');
+                  const trueLetters = shuffled.map((o, k) => o.correct ? String.fromCharCode(65 + k) : '').join('');
+                  const answer = q.type === 'TL' ? q.answer : q.type === 'TF' ? trueLetters.toLowerCase() : trueLetters;
+
+                  answerKey.push({ code, number, type: q.type, originalId: q.id, answer });
+                  questionMap.push({ code, type: q.type, number, originalNumber: group.indexOf(q) + 1, originalId: q.id, optionOrder: q.type === 'TF' ? letters.toLowerCase() : letters });
+                  displayAnswers.push(q.type === 'TF' ? shuffled.map(o => o.correct ? 'Đ' : 'S').join('') : answer);
+
+                  const label = `<b>Câu ${number}.</b>`;
+                  const stem = q.stem.length > 0 && /^<p[\s>]/i.test(q.stem[0])
+                      ? [q.stem[0].replace(/^<p([^>]*)>/i, `<p$1>${label} `), ...q.stem.slice(1)]
+                      : [`<p>${label}</p>`, ...q.stem];
+                  // Shared stem right before the group's first question; {{tu}}/{{den}} become its question range
+                  if (posInUnit === 0 && q.groupStem) {
+                      stem.unshift(q.groupStem.replace(/\{\{tu\}\}/g, String(number)).replace(/\{\{den\}\}/g, String(number + unitSize - 1)));
+                  }
+                  const optionLines = shuffled.map((o, k) => {
+                      const marker = q.type === 'TF' ? `${String.fromCharCode(97 + k)})` : `${String.fromCharCode(65 + k)}.`;
+                      return `<p><b>${marker}</b> ${o.html[0]}</p>${o.html.slice(1).join('\n')}`;
+                  });
+                  return [...stem, ...optionLines].join('\n');
+              });
+
+              const title = `PHẦN ${romans[partIndex++]}. ${partTitles[g]}`;
+              sections.push(`<p><b>${title}</b></p>\n${blocks.join('\n')}`);
+              codeTables.push(answerTableHtml(title, displayAnswers));
+          });
+
+          answerTables.push(`<p style="text-align:center"><b>ĐÁP ÁN MÃ ĐỀ ${escapeHtml(code)}</b></p>\n${codeTables.join('\n')}`);
+          return { name: `MaDe_${code}`, html: `${headerHtml(code)}\n${sections.join('\n')}\n<p style="text-align:center"><b>----- HẾT -----</b></p>` };
+      });
+
+      // Same columns as the .tex appendix; parts are numbered as they appear in the exam
+      if (options.includeMapAppendix) {
+          const partNames = new Map(groups.filter(group => group.length > 0).map((group, i) => [group[0].type, romans[i]]));
+          codes.forEach(code => {
+              const rows = questionMap
+                  .filter(e => e.code === code)
+                  .map(e => `<tr><td>${partNames.get(e.type)}</td><td>${e.number}</td><td>${e.originalNumber}</td><td>${e.originalId}</td><td>${e.optionOrder || '--'}</td></tr>`);
+              answerTables.push(`<p style="text-align:center"><b>BẢNG ĐỐI CHIẾU - MÃ ĐỀ ${escapeHtml(code)}</b></p>\n<table><tr><th>Phần</th><th>Câu</th><th>Câu gốc</th><th>Mã câu</th><th>Thứ tự phương án</th></tr>${rows.join('')}</table>`);
+          });
+      }
+
+      docs.push({ name: 'DapAn', html: answerTables.join('\n<br style="page-break-before:always"/>\n') });
+      return { docs, answerKey, questionMap, warnings };
+  };
+
+  // --- LATEX MATH -> OMML / MATHML ---
+
+  // Small recursive-descent reader for the math Gemini writes: \dfrac, \sqrt[n]{}, ^ _, \overrightarrow,
+  // \left( \right), Greek letters and operators, \text{}/\mathrm{} units. Unknown commands stay as upright text.
+  const parseLatexMath = (source: string): MathNode[] => {
+      let pos = 0;
+
+      // Always consumes the backslash; a lone trailing one gives ''
+      const readCommand = () => {
+          const match = /^\\([a-zA-Z]+|[\s\S])?/.exec(source.slice(pos))!;
+          pos += match[0].length;
+          return match[1] || '';
+      };
+      const readRawGroup = () => {
+          while (source[pos] === ' ') pos++;
+          if (source[pos] !== '{') return source[pos++] || '';
+          const end = readBraceGroup(source, pos);
+          const content = source.slice(pos + 1, end < 0 ? source.length : end - 1);
+          pos = end < 0 ? source.length : end;
+          return content;
+      };
+      const readDelimiter = () => {
+          while (source[pos] === ' ') pos++;
+          if (source[pos] === '\\') {
+              const name = readCommand();
+              return name === '.' ? '' : LATEX_MATH_SYMBOLS[name] ?? name;
+          }
+          return source[pos++] || '';
+      };
+      // One argument of ^, _, \frac, ...: a braced group, a command or a single character
+      const readArgument = (): MathNode[] => {
+          while (source[pos] === ' ') pos++;
+          if (pos >= source.length) return [];
+          if (source[pos] === '{') {
+              pos++;
+              return readList('}');
+          }
+          const atom = readAtom(true);
+          return atom ? [atom] : [];
+      };
+
+      const readAtom = (single = false): MathNode | null => {
+          if (pos >= source.length) return null;
+          const ch = source[pos];
+          if (/[0-9]/.test(ch)) {
+              const number = single ? ch : /^[0-9]+([.,][0-9]+)*/.exec(source.slice(pos))![0];
+              pos += number.length;
+              return { kind: 'run', text: number, upright: true };
+          }
+          if (/[a-zA-Z]/.test(ch)) {
+              pos++;
+              return { kind: 'run', text: ch };
+          }
+          if (ch === '{') {
+              pos++;
+              const body = readList('}');
+              return body.length === 1 ? body[0] : { kind: 'delim', open: '', close: '', body };
+          }
+          if (ch !== '\\') {
+              pos++;
+              return { kind: 'run', text: ch === '-' ? '−' : ch === "'" ? '′' : ch, upright: true };
+          }
+
+          const name = readCommand();
+          if (name === '') return { kind: 'run', text: '\\', upright: true };
+          if (/^\s$/.test(name)) return { kind: 'run', text: ' ', upright: true };
+          if (/^[dt]?frac$/.test(name)) {
+              const num = readArgument();
+              return { kind: 'frac', num, den: readArgument() };
+          }
+          if (name === 'sqrt') {
+              let degree: MathNode[] | undefined;
+              if (source[pos] === '[') {
+                  pos++;
+                  degree = readList(']');
+              }
+              return { kind: 'sqrt', body: readArgument(), degree };
+          }
+          if (name in LATEX_MATH_ACCENTS) return { kind: 'accent', chr: LATEX_MATH_ACCENTS[name], body: readArgument() };
+          if (/^(text|textrm|textit|mathrm|mbox|operatorname)$/.test(name)) return { kind: 'run', text: readRawGroup(), upright: true };
+          if (name === 'mathbb') {
+              const letter = readRawGroup();
+              return { kind: 'run', text: ({ R: 'ℝ', N: 'ℕ', Z: 'ℤ', Q: 'ℚ', C: 'ℂ' } as Record<string, string>)[letter] || letter, upright: true };
+          }
+          if (name === 'left') {
+              const open = readDelimiter();
+              const body = readList('\\right');
+              return { kind: 'delim', open, close: readDelimiter(), body };
+          }
+          if (/^(displaystyle|textstyle|limits|nolimits|right)$/.test(name)) return null;
+          if (LATEX_MATH_FUNCTIONS.includes(name)) return { kind: 'run', text: name, upright: true };
+          if (name in LATEX_MATH_SYMBOLS) {
+              const text = LATEX_MATH_SYMBOLS[name];
+              // Lowercase Greek letters are variables (italic), everything else is upright
+              return text ? { kind: 'run', text, upright: !/[\u03B1-\u03C9\u03D1\u03D5\u03F5]/.test(text) } : null;
+          }
+          return { kind: 'run', text: `\\${name}`, upright: true };
+      };
+
+      const readList = (terminator?: string): MathNode[] => {
+          const nodes: MathNode[] = [];
+          while (pos < source.length) {
+              // \right must not match the start of \rightarrow
+              if (terminator && source.startsWith(terminator, pos) && !(terminator[0] === '\\' && /[a-zA-Z]/.test(source[pos + terminator.length] || ''))) {
+                  pos += terminator.length;
+                  break;
+              }
+              const ch = source[pos];
+              if (/\s/.test(ch)) {
+                  pos++;
+                  continue;
+              }
+              if (ch === '^' || ch === '_') {
+                  pos++;
+                  const last = nodes[nodes.length - 1];
+                  const script = last && last.kind === 'script' && !last[ch === '^' ? 'sup' : 'sub']
+                      ? last
+                      : { kind: 'script' as const, base: last ? [nodes.pop()!] : [] };
+                  if (ch === '^') script.sup = readArgument();
+                  else script.sub = readArgument();
+                  if (script !== last) nodes.push(script);
+                  continue;
+              }
+              const atom = readAtom();
+              if (atom) nodes.push(atom);
+          }
+          return nodes;
+      };
+
+      return readList();
+  };
+
+  const mathToOmml = (nodes: MathNode[]): string => nodes.map(node => {
+      const list = (tag: string, children: MathNode[]) => `<m:${tag}>${mathToOmml(children)}</m:${tag}>`;
+      switch (node.kind) {
+          case 'run':
+              return `<m:r>${node.upright ? '<m:rPr><m:sty m:val="p"/></m:rPr>' : ''}<m:t xml:space="preserve">${escapeHtml(node.text)}</m:t></m:r>`;
+          case 'frac':
+              return `<m:f>${list('num', node.num)}${list('den', node.den)}</m:f>`;
+          case 'sqrt':
+              return node.degree
+                  ? `<m:rad>${list('deg', node.degree)}${list('e', node.body)}</m:rad>`
+                  : `<m:rad><m:radPr><m:degHide m:val="1"/></m:radPr><m:deg/>${list('e', node.body)}</m:rad>`;
+          case 'script': {
+              const tag = node.sub && node.sup ? 'sSubSup' : node.sup ? 'sSup' : 'sSub';
+              return `<m:${tag}>${list('e', node.base)}${node.sub ? list('sub', node.sub) : ''}${node.sup ? list('sup', node.sup) : ''}</m:${tag}>`;
+          }
+          case 'accent':
+              return `<m:acc><m:accPr><m:chr m:val="${node.chr}"/></m:accPr>${list('e', node.body)}</m:acc>`;
+          case 'delim':
+              return `<m:d><m:dPr><m:begChr m:val="${escapeHtml(node.open)}"/><m:endChr m:val="${escapeHtml(node.close)}"/></m:dPr>${list('e', node.body)}</m:d>`;
+      }
+  }).join('');
+
+  const mathToMathml = (nodes: MathNode[]): string => nodes.map(node => {
+      const row = (children: MathNode[]) => `<mrow>${mathToMathml(children)}</mrow>`;
+      switch (node.kind) {
+          case 'run': {
+              const text = escapeHtml(node.text);
+              if (/^[0-9.,]+$/.test(node.text)) return `<mn>${text}</mn>`;
+              if (!node.upright) return `<mi>${text}</mi>`;
+              return /[a-zA-Z\u00C0-\u1EF9]/.test(node.text) ? `<mi mathvariant="normal">${text}</mi>` : `<mo>${text}</mo>`;
+          }
+          case 'frac':
+              return `<mfrac>${row(node.num)}${row(node.den)}</mfrac>`;
+          case 'sqrt':
+              return node.degree ? `<mroot>${row(node.body)}${row(node.degree)}</mroot>` : `<msqrt>${mathToMathml(node.body)}</msqrt>`;
+          case 'script':
+              if (node.sub && node.sup) return `<msubsup>${row(node.base)}${row(node.sub)}${row(node.sup)}</msubsup>`;
+              return node.sup ? `<msup>${row(node.base)}${row(node.sup)}</msup>` : `<msub>${row(node.base)}${row(node.sub!)}</msub>`;
+          case 'accent':
+              // MathML wants the spacing form of the combining mark
+              return `<mover accent="true">${row(node.body)}<mo>${({ '\u20D7': '→', '\u0305': '¯', '\u0302': '^', '\u0303': '~', '\u0307': '˙' } as Record<string, string>)[node.chr] || node.chr}</mo></mover>`;
+          case 'delim':
+              return `<mrow>${node.open ? `<mo>${escapeHtml(node.open)}</mo>` : ''}${mathToMathml(node.body)}${node.close ? `<mo>${escapeHtml(node.close)}</mo>` : ''}</mrow>`;
+      }
+  }).join('');
+
+  const latexToOmml = (latex: string) => `<m:oMath>${mathToOmml(parseLatexMath(latex))}</m:oMath>`;
+  const latexToMathml = (latex: string) => `<math xmlns="http://www.w3.org/1998/Math/MathML">${mathToMathml(parseLatexMath(latex))}</math>`;
+
+  // One unreadable formula must not fail the whole document: it stays as its $...$ text
+  const mathOrPlain = (render: (latex: string) => string, latex: string, plain: (text: string) => string) => {
+      try {
+          return render(latex);
+      } catch (e) {
+          console.warn(`Could not convert formula: ${latex}`, e);
+          return plain(`$${latex}$`);
+      }
+  };
+
+  // Splits text on $...$ / $$...$$ so callers can render the formulas natively
+  const splitMathSegments = (text: string) => {
+      const segments: { text: string, math: boolean }[] = [];
+      const pattern = /\$\$([^$]+)\$\$|\$([^$]+)\$/g;
+      let lastIndex = 0;
+      let match: RegExpExecArray | null;
+      while ((match = pattern.exec(text)) !== null) {
+          if (match.index > lastIndex) segments.push({ text: text.slice(lastIndex, match.index), math: false });
+          segments.push({ text: match[1] ?? match[2], math: true });
+          lastIndex = pattern.lastIndex;
+      }
+      if (lastIndex < text.length) segments.push({ text: text.slice(lastIndex), math: false });
+      return segments;
+  };
+
+  // Word pastes MathML from text/html as editable equations
+  const replaceMathWithMathml = (html: string) => {
+      const body = new DOMParser().parseFromString(html, 'text/html').body;
+      const walker = document.createTreeWalker(body, NodeFilter.SHOW_TEXT);
+      const textNodes: Text[] = [];
+      while (walker.nextNode()) {
+          if (/\$[^$]+\$/.test(walker.currentNode.textContent || '')) textNodes.push(walker.currentNode as Text);
+      }
+      textNodes.forEach(node => {
+          const holder = document.createElement('span');
+          holder.innerHTML = splitMathSegments(node.textContent || '')
+              .map(seg => seg.math ? mathOrPlain(latexToMathml, seg.text, escapeHtml) : escapeHtml(seg.text))
+              .join('');
+          node.replaceWith(...Array.from(holder.childNodes));
+      });
+      return body.innerHTML;
+  };
+
+  // --- DOCX WRITER ---
+
+  const crc32 = (data: Uint8Array) => {
+      let crc = 0xFFFFFFFF;
+      for (let i = 0; i < data.length; i++) crc = CRC32_TABLE[(crc ^ data[i]) & 0xFF] ^ (crc >>> 8);
+      return (crc ^ 0xFFFFFFFF) >>> 0;
+  };
+
+  // Counterpart of readZipEntries: deflated entries (CompressionStream), UTF-8 names, fixed 1980-01-01 timestamps
+  const buildZip = async (files: { name: string, data: Uint8Array }[], mimeType = DOCX_MIME) => {
+      const encoder = new TextEncoder();
+      const parts: Uint8Array[] = [];
+      const central: Uint8Array[] = [];
+      let offset = 0;
+
+      for (const file of files) {
+          const name = encoder.encode(file.name);
+          const stream = new Blob([file.data]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+          const compressed = new Uint8Array(await new Response(stream).arrayBuffer());
+          const crc = crc32(file.data);
+
+          const local = new DataView(new ArrayBuffer(30));
+          local.setUint32(0, 0x04034b50, true);
+          local.setUint16(4, 20, true);
+          local.setUint16(6, 0x0800, true);
+          local.setUint16(8, 8, true);
+          local.setUint16(12, 0x21, true);
+          local.setUint32(14, crc, true);
+          local.setUint32(18, compressed.length, true);
+          local.setUint32(22, file.data.length, true);
+          local.setUint16(26, name.length, true);
+          parts.push(new Uint8Array(local.buffer), name, compressed);
+
+          const entry = new DataView(new ArrayBuffer(46));
+          entry.setUint32(0, 0x02014b50, true);
+          entry.setUint16(4, 20, true);
+          entry.setUint16(6, 20, true);
+          entry.setUint16(8, 0x0800, true);
+          entry.setUint16(10, 8, true);
+          entry.setUint16(14, 0x21, true);
+          entry.setUint32(16, crc, true);
+          entry.setUint32(20, compressed.length, true);
+          entry.setUint32(24, file.data.length, true);
+          entry.setUint16(28, name.length, true);
+          entry.setUint32(42, offset, true);
+          central.push(new Uint8Array(entry.buffer), name);
+
+          offset += 30 + name.length + compressed.length;
+      }
+
+      const end = new DataView(new ArrayBuffer(22));
+      end.setUint32(0, 0x06054b50, true);
+      end.setUint16(8, files.length, true);
+      end.setUint16(10, files.length, true);
+      end.setUint32(12, central.reduce((sum, c) => sum + c.length, 0), true);
+      end.setUint32(16, offset, true);
+      return new Blob([...parts, ...central, new Uint8Array(end.buffer)], { type: mimeType });
+  };
+
+  // HTML (Word tab result, shuffled Word exams) -> .docx: paragraphs with b/i/u/sup/sub runs,
+  // bordered tables, embedded data-URL images, page breaks; $...$ becomes OMML and
+  // OMML kept by docxToHtml is written back as is
+  const htmlToDocx = async (html: string) => {
+      type RunStyle = { bold?: boolean, italic?: boolean, underline?: boolean, vertAlign?: 'superscript' | 'subscript', color?: string, size?: number };
+      const body = new DOMParser().parseFromString(html, 'text/html').body;
+      const media: { name: string, data: Uint8Array }[] = [];
+      const textWidth = DOCX_PAGE.width - DOCX_PAGE.marginLeft - DOCX_PAGE.marginRight;
+      const BLOCK_TAGS = /^(P|DIV|H[1-6]|LI|UL|OL|TABLE|BLOCKQUOTE|PRE|SECTION|ARTICLE|CENTER)$/;
+
+      const runProps = (style: RunStyle) => {
+          const props = [
+              style.bold && '<w:b/>',
+              style.italic && '<w:i/>',
+              style.underline && '<w:u w:val="single"/>',
+              style.color && `<w:color w:val="${style.color}"/>`,
+              style.size && `<w:sz w:val="${style.size}"/><w:szCs w:val="${style.size}"/>`,
+              style.vertAlign && `<w:vertAlign w:val="${style.vertAlign}"/>`
+          ].filter(Boolean).join('');
+          return props ? `<w:rPr>${props}</w:rPr>` : '';
+      };
+      const textRun = (text: string, style: RunStyle) => `<w:r>${runProps(style)}<w:t xml:space="preserve">${escapeHtml(text)}</w:t></w:r>`;
+      const isPageBreak = (el: HTMLElement) => /page-break-(before|after)\s*:\s*always/i.test(el.getAttribute('style') || '');
+
+      const imageRun = async (img: HTMLImageElement) => {
+          const match = /^data:image\/(png|jpe?g|gif|bmp);base64,(.*)$/i.exec(img.getAttribute('src') || '');
+          if (!match) return '';
+          const binary = atob(match[2]);
+          const data = new Uint8Array(binary.length);
+          for (let i = 0; i < binary.length; i++) data[i] = binary.charCodeAt(i);
+
+          let width = Number(img.getAttribute('width')) || 0;
+          let height = Number(img.getAttribute('height')) || 0;
+          if (!width || !height) {
+              try {
+                  const bitmap = await createImageBitmap(new Blob([data]));
+                  width = bitmap.width;
+                  height = bitmap.height;
+                  bitmap.close();
+              } catch (e) {
+                  width = 300;
+                  height = 200;
+              }
+          }
+          // 1px = 9525 EMU, 1 twip = 635 EMU; shrink to the text width
+          let cx = width * 9525;
+          let cy = height * 9525;
+          if (cx > textWidth * 635) {
+              cy = Math.round(cy * textWidth * 635 / cx);
+              cx = textWidth * 635;
+          }
+          const index = media.length + 1;
+          const fileName = `image${index}.${match[1].toLowerCase().replace('jpg', 'jpeg')}`;
+          media.push({ name: fileName, data });
+          return `<w:r><w:drawing><wp:inline distT="0" distB="0" distL="0" distR="0"><wp:extent cx="${cx}" cy="${cy}"/><wp:docPr id="${index}" name="Picture ${index}"/>` +
+              `<a:graphic xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main"><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/picture">` +
+              `<pic:pic xmlns:pic="http://schemas.openxmlformats.org/drawingml/2006/picture"><pic:nvPicPr><pic:cNvPr id="${index}" name="${fileName}"/><pic:cNvPicPr/></pic:nvPicPr>` +
+              `<pic:blipFill><a:blip r:embed="rIdImg${index}"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill>` +
+              `<pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${cx}" cy="${cy}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr></pic:pic>` +
+              `</a:graphicData></a:graphic></wp:inline></w:drawing></w:r>`;
+      };
+
+      const inlineXml = async (node: Node, style: RunStyle): Promise<string> => {
+          if (node.nodeType === Node.TEXT_NODE) {
+              const text = (node.textContent || '').replace(/[ \t\r\n]+/g, ' ');
+              return splitMathSegments(text).map(seg => seg.math ? mathOrPlain(latexToOmml, seg.text, t => textRun(t, style)) : textRun(seg.text, style)).join('');
+          }
+          if (!(node instanceof HTMLElement)) return '';
+          if (node.tagName === 'BR') return isPageBreak(node) ? '<w:r><w:br w:type="page"/></w:r>' : '<w:r><w:br/></w:r>';
+          if (node.tagName === 'IMG') return imageRun(node as HTMLImageElement);
+          if (node.dataset.omml) return node.dataset.omml;
+
+          const next = { ...style };
+          if (/^(B|STRONG)$/.test(node.tagName) || /bold|[6-9]00/.test(node.style.fontWeight)) next.bold = true;
+          if (/^(I|EM)$/.test(node.tagName) || node.style.fontStyle === 'italic') next.italic = true;
+          if (node.tagName === 'U' || /underline/.test(node.style.textDecoration)) next.underline = true;
+          if (node.tagName === 'SUP') next.vertAlign = 'superscript';
+          if (node.tagName === 'SUB') next.vertAlign = 'subscript';
+          let xml = '';
+          for (const child of Array.from(node.childNodes)) xml += await inlineXml(child, next);
+          return xml;
+      };
+
+      const alignmentOf = (el: HTMLElement, fallback: string) => {
+          const align = el.style.textAlign || el.getAttribute('align') || (el.tagName === 'CENTER' ? 'center' : fallback);
+          return ({ center: 'center', right: 'right', justify: 'both' } as Record<string, string>)[align] || '';
+      };
+      const paragraph = (align: string, runs: string, extraProps = '') => {
+          const props = `${align ? `<w:jc w:val="${align}"/>` : ''}${extraProps}`;
+          return `<w:p>${props ? `<w:pPr>${props}</w:pPr>` : ''}${runs}</w:p>`;
+      };
+
+      const tableXml = async (table: HTMLElement) => {
+          const rows = Array.from(table.querySelectorAll('tr')).filter(tr => tr.closest('table') === table);
+          const columnCount = Math.max(1, ...rows.map(r => Array.from(r.children).reduce((n, c) => n + (Number(c.getAttribute('colspan')) || 1), 0)));
+          const columnWidth = Math.floor(textWidth / columnCount);
+          const borders = ['top', 'left', 'bottom', 'right', 'insideH', 'insideV']
+              .map(side => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="000000"/>`).join('');
+          let xml = `<w:tbl><w:tblPr><w:tblW w:w="${textWidth}" w:type="dxa"/><w:tblBorders>${borders}</w:tblBorders><w:tblLayout w:type="fixed"/></w:tblPr>` +
+              `<w:tblGrid>${`<w:gridCol w:w="${columnWidth}"/>`.repeat(columnCount)}</w:tblGrid>`;
+          for (const row of rows) {
+              xml += '<w:tr>';
+              for (const cell of Array.from(row.children) as HTMLElement[]) {
+                  if (!/^T[DH]$/.test(cell.tagName)) continue;
+                  const span = Number(cell.getAttribute('colspan')) || 1;
+                  const isHeader = cell.tagName === 'TH';
+                  // Header cells keep the dark blue / white bold look of the former HTML export
+                  const content = await blocksXml(cell, isHeader ? { bold: true, color: 'FFFFFF' } : {}, 'center');
+                  xml += `<w:tc><w:tcPr><w:tcW w:w="${columnWidth * span}" w:type="dxa"/>${span > 1 ? `<w:gridSpan w:val="${span}"/>` : ''}` +
+                      `${isHeader ? '<w:shd w:val="clear" w:color="auto" w:fill="003366"/>' : ''}<w:vAlign w:val="center"/></w:tcPr>${content || '<w:p/>'}</w:tc>`;
+              }
+              xml += '</w:tr>';
+          }
+          // The empty paragraph keeps consecutive tables apart
+          return `${xml}</w:tbl><w:p/>`;
+      };
+
+      const blockXml = async (el: HTMLElement, style: RunStyle, align: string): Promise<string> => {
+          if (el.tagName === 'TABLE') return tableXml(el);
+          if (el.tagName === 'UL' || el.tagName === 'OL') {
+              const items = Array.from(el.children).filter(c => c.tagName === 'LI') as HTMLElement[];
+              let xml = '';
+              for (let i = 0; i < items.length; i++) {
+                  const bullet = el.tagName === 'OL' ? `${i + 1}. ` : '• ';
+                  xml += paragraph(alignmentOf(items[i], align), textRun(bullet, style) + await inlineXml(items[i], style), '<w:ind w:left="360"/>');
+              }
+              return xml;
+          }
+          if (Array.from(el.children).some(c => BLOCK_TAGS.test(c.tagName))) {
+              return blocksXml(el, style, alignmentOf(el, align));
+          }
+          const heading = /^H([1-6])$/.exec(el.tagName);
+          const blockStyle = heading ? { ...style, bold: true, size: [32, 28, 26, 24, 24, 24][Number(heading[1]) - 1] } : style;
+          const pageBreak = isPageBreak(el) ? '<w:pageBreakBefore/>' : '';
+          return paragraph(alignmentOf(el, align), await inlineXml(el, blockStyle), pageBreak);
+      };
+
+      // Block children become paragraphs; loose inline content between them is one paragraph per <br>
+      const blocksXml = async (container: Element, style: RunStyle, align: string): Promise<string> => {
+          let xml = '';
+          let pendingRuns = '';
+          const flush = () => {
+              if (pendingRuns) xml += paragraph(align, pendingRuns);
+              pendingRuns = '';
+          };
+          for (const node of Array.from(container.childNodes)) {
+              if (node instanceof HTMLElement && BLOCK_TAGS.test(node.tagName)) {
+                  flush();
+                  xml += await blockXml(node, style, align);
+              } else if (node instanceof HTMLElement && node.tagName === 'BR') {
+                  flush();
+                  if (isPageBreak(node)) xml += '<w:p><w:r><w:br w:type="page"/></w:r></w:p>';
+              } else {
+                  pendingRuns += await inlineXml(node, style);
+              }
+          }
+          flush();
+          return xml;
+      };
+
+      const bodyXml = await blocksXml(body, {}, '');
+      const documentXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships" xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing" xmlns:m="http://schemas.openxmlformats.org/officeDocument/2006/math"><w:body>${bodyXml}<w:sectPr><w:pgSz w:w="${DOCX_PAGE.width}" w:h="${DOCX_PAGE.height}"/><w:pgMar w:top="${DOCX_PAGE.marginTop}" w:right="${DOCX_PAGE.marginRight}" w:bottom="${DOCX_PAGE.marginBottom}" w:left="${DOCX_PAGE.marginLeft}" w:header="567" w:footer="567" w:gutter="0"/></w:sectPr></w:body></w:document>`;
+      const stylesXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Times New Roman" w:hAnsi="Times New Roman" w:eastAsia="Times New Roman" w:cs="Times New Roman"/><w:sz w:val="24"/><w:szCs w:val="24"/><w:lang w:val="vi-VN"/></w:rPr></w:rPrDefault><w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults><w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style></w:styles>`;
+      const contentTypesXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Default Extension="png" ContentType="image/png"/><Default Extension="jpeg" ContentType="image/jpeg"/><Default Extension="gif" ContentType="image/gif"/><Default Extension="bmp" ContentType="image/bmp"/><Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/><Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/></Types>`;
+      const rootRelsXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/></Relationships>`;
+      const documentRelsXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>${media.map((m, i) => `<Relationship Id="rIdImg${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/image" Target="media/${m.name}"/>`).join('')}</Relationships>`;
+
+      const encoder = new TextEncoder();
+      return buildZip([
+          { name: '[Content_Types].xml', data: encoder.encode(contentTypesXml) },
+          { name: '_rels/.rels', data: encoder.encode(rootRelsXml) },
+          { name: 'word/document.xml', data: encoder.encode(documentXml) },
+          { name: 'word/styles.xml', data: encoder.encode(stylesXml) },
+          { name: 'word/_rels/document.xml.rels', data: encoder.encode(documentRelsXml) },
+          ...media.map(m => ({ name: `word/media/${m.name}`, data: m.data }))
+      ]);
+  };
+
+  // Draw questions for each blueprint row without repeats; rows are filled in order,
+  // so put the most specific rows first. A %group is drawn whole (stem and every member)
+  // when all its questions have the row's type; its level is the first question's.
+  const sampleFromBlueprint = (bank: ReturnType<typeof parseLatexQuestions>, rows: BlueprintRow[], random: () => number) => {
+      const units: (typeof bank)[] = [];
+      bank.forEach(q => {
+          const last = units[units.length - 1];
+          if (q.groupId && last && last[0].groupId === q.groupId) last.push(q);
+          else units.push([q]);
+      });
+      const used = new Set<(typeof bank)>();
+      const picked: (typeof bank)[] = [];
+      const shortfalls: string[] = [];
+
+      rows.forEach((row, idx) => {
+          const keyword = row.keyword.trim().toLowerCase();
+          const candidates = units.filter(unit =>
+              !used.has(unit) &&
+              unit.every(q => q.type === row.type) &&
+              (!row.level || unit[0].level === row.level) &&
+              (!keyword || [unit[0].groupStem || '', ...unit.map(q => q.fullContent)].join('\n').toLowerCase().includes(keyword))
+          );
+          let taken = 0;
+          shuffleArray(candidates, random).forEach(unit => {
+              if (taken + unit.length > row.count) return;
+              taken += unit.length;
+              used.add(unit);
+              picked.push(unit);
+          });
+          if (taken < row.count) {
+              const available = candidates.reduce((sum, unit) => sum + unit.length, 0);
+              shortfalls.push(`Dòng ${idx + 1} (${row.keyword || 'mọi chủ đề'}, ${row.level ? LEVEL_NAMES[row.level - 1] : 'mọi mức độ'}, ${row.type}): cần ${row.count} câu, chỉ ${available < row.count ? `có ${available}` : `ghép được ${taken} (nhóm câu không tách được)`}.`);
+          }
+      });
+
+      return { picked, shortfalls };
+  };
+
+  const downloadTextFile = (content: string | Blob, downloadName: string, mimeType: string) => {
+      const element = document.createElement("a");
+      const blob = new Blob([content], { type: mimeType });
+      element.href = URL.createObjectURL(blob);
+      element.download = downloadName;
+      document.body.appendChild(element);
+      element.click();
+      document.body.removeChild(element);
+  };
+
+  const escapeCsvField = (value: string | number) => {
+      const text = String(value);
+      return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+
+  const handleDownloadAnswerKey = (format: 'csv' | 'json') => {
+      if (answerKey.length === 0) return;
+      const baseName = `DapAn_${fileName.split('.')[0] || 'TronDe'}`;
+
+      if (format === 'json') {
+          // Group by code so importers can pick one code directly
+          const byCode: Record<string, Omit<AnswerKeyEntry, 'code'>[]> = {};
+          answerKey.forEach(e => {
+              (byCode[e.code] = byCode[e.code] || []).push({ number: e.number, type: e.type, originalId: e.originalId, answer: e.answer });
+          });
+          downloadTextFile(JSON.stringify(byCode, null, 2), `${baseName}.json`, 'application/json');
+      } else {
+          const rows = [['Mã đề', 'Phần', 'Câu', 'Câu gốc', 'Đáp án']];
+          answerKey.forEach(e => rows.push([e.code, e.type, String(e.number), e.originalId, e.answer]));
+          downloadCsv(rows, `${baseName}.csv`);
+      }
+  };
+
+  const downloadCsv = (rows: (string | number)[][], downloadName: string) => {
+      // BOM so Excel opens Vietnamese text as UTF-8
+      const csv = '\uFEFF' + rows.map(r => r.map(escapeCsvField).join(',')).join('\r\n');
+      downloadTextFile(csv, downloadName, 'text/csv;charset=utf-8');
+  };
+
+  const handleDownloadQuestionMap = () => {
+      if (questionMap.length === 0) return;
+      const rows: (string | number)[][] = [['Mã đề', 'Phần', 'Câu', 'Câu gốc', 'Mã câu', 'Thứ tự phương án']];
+      questionMap.forEach(e => rows.push([e.code, e.type, e.number, e.originalNumber, e.originalId, e.optionOrder]));
+      downloadCsv(rows, `BangDoiChieu_${fileName.split('.')[0] || 'TronDe'}.csv`);
+  };
+
+  const executeLatexShuffle = async () => {
+      if (!file && !pastedText) return setError("Vui lòng tải file .tex hoặc dán nội dung.");
+      
+      setIsLoading(true);
+      setError(null);
+      setAnswerKey([]);
+      setQuestionMap([]);
+      setShuffleWarnings([]);
+      setWordShuffleDocs([]);
+      setLoadingStatus("Đang đọc file...");
+      
+      try {
+          let content = "";
+          const isWordSource = !!file && /\.(docx?|html?)$/i.test(file.name);
+          if (file && /\.docx$/i.test(file.name)) {
+              content = await docxToHtml(await file.arrayBuffer());
+          } else if (file) {
+              content = await file.text();
+              if (/\.doc$/i.test(file.name) && !/<(html|p|body)[\s>]/i.test(content)) {
+                  throw new Error("File .doc dạng nhị phân không được hỗ trợ. Vui lòng lưu lại thành .docx.");
+              }
+          } else {
+              content = pastedText;
+          }
+
+          if (!content) throw new Error("File rỗng.");
+          
+          setLoadingStatus("Đang phân tích và trộn đề...");
+          await wait(500); // UI feel
+
+          if (isWordSource) runWordShuffle(content);
+          else runShuffle(content);
+      } catch (err: any) {
+          setError(err.message);
+      } finally {
+          setIsLoading(false);
+      }
+  };
+
+  // Shared tail of the shuffle actions: validate codes/seed, shuffle, publish results
+  const runShuffle = (content: string) => {
+      const codes = shuffleCodes.split(',').map(c => c.trim()).filter(c => c);
+      if (codes.length === 0) throw new Error("Vui lòng nhập ít nhất 1 mã đề.");
+
+      const seed = shuffleSeed.trim();
+      if (!seed) throw new Error("Vui lòng nhập mã seed trộn đề.");
+
+      const shuffled = shuffleLatexContent(content, codes, { disableTFShuffle, seed, includeMapAppendix, header: examHeader, preambleMode, balanceLevels });
+      
+      setWordShuffleDocs([]);
+      setResultContent(shuffled.latex);
+      setAnswerKey(shuffled.answerKey);
+      setQuestionMap(shuffled.questionMap);
+      setShuffleWarnings(shuffled.warnings);
+      setLoadingStatus("");
+      setProgress(100);
+  };
+
+  const runWordShuffle = (html: string) => {
+      const codes = shuffleCodes.split(',').map(c => c.trim()).filter(c => c);
+      if (codes.length === 0) throw new Error("Vui lòng nhập ít nhất 1 mã đề.");
+
+      const seed = shuffleSeed.trim();
+      if (!seed) throw new Error("Vui lòng nhập mã seed trộn đề.");
+
+      const shuffled = shuffleWordContent(html, codes, { disableTFShuffle, seed, includeMapAppendix, header: examHeader, preambleMode, balanceLevels });
+
+      setWordShuffleDocs(shuffled.docs);
+      setResultContent(shuffled.docs.map(d => d.html).join('\n<br style="page-break-before:always"/>\n'));
+      setAnswerKey(shuffled.answerKey);
+      setQuestionMap(shuffled.questionMap);
+      setShuffleWarnings(shuffled.warnings);
+      setLoadingStatus("");
+      setProgress(100);
+  };
+
+  const handleDownloadWordDoc = async (doc: { name: string, html: string }) => {
+      try {
+          downloadTextFile(await htmlToDocx(doc.html), `${doc.name}_${fileName.split('.')[0] || 'TronDe'}.docx`, DOCX_MIME);
+      } catch (err: any) {
+          setError(`Lỗi tạo file Word: ${err.message}`);
+      }
+  };
+
+  // Hand the Word tab result over to the shuffler as an HTML source
+  const handleSendWordResultToShuffle = () => {
+      const html = contentEditableRef.current ? contentEditableRef.current.innerHTML : resultContent;
+      if (!html.trim()) return;
+      handleTabChange('latex-shuffle');
+      const source = new File([html], "KetQua_Word.html", { type: "text/html" });
+      setFile(source);
+      setFileName(source.name);
+  };
+
+  const executeBlueprint = async () => {
+      if (!filterFiles || filterFiles.length === 0) return setError("Vui lòng chọn các file .tex ngân hàng câu hỏi.");
+      if (blueprintRows.length === 0) return setError("Ma trận đề đang trống. Vui lòng thêm ít nhất 1 dòng.");
+
+      setIsLoading(true);
+      setError(null);
+      setAnswerKey([]);
+      setQuestionMap([]);
+      setShuffleWarnings([]);
+      setLoadingStatus("Đang đọc ngân hàng câu hỏi...");
+
+      try {
+          let bankContent = "";
+          for (let i = 0; i < filterFiles.length; i++) {
+              bankContent += await filterFiles[i].text() + "\n";
+          }
+          const bank = parseLatexQuestions(bankContent);
+          if (bank.length === 0) throw new Error("Không tìm thấy câu hỏi \\begin{ex} nào trong các file đã chọn.");
+
+          setLoadingStatus("Đang rút câu hỏi theo ma trận...");
+          // Seeded too, so the same blueprint + seed always draws the same questions
+          const random = createSeededRandom(hashSeed(`${shuffleSeed.trim()}::blueprint`));
+          const { picked, shortfalls } = sampleFromBlueprint(bank, blueprintRows, random);
+          if (shortfalls.length > 0) {
+              throw new Error(`Ngân hàng không đủ câu hỏi:\n${shortfalls.join('\n')}`);
+          }
+
+          runShuffle(picked.map(unit => unit[0].groupId
+              ? `%group:begin\n${unit[0].groupStem}\n${unit.map(q => q.fullContent).join('\n')}\n%group:end`
+              : unit[0].fullContent
+          ).join('\n\n'));
+      } catch (err: any) {
+          setError(err.message);
+      } finally {
+          setIsLoading(false);
+      }
+  };
+
+  // --- QUESTION BANK ACTIONS ---
+
+  const loadBankQuestions = async () => {
+      try {
+          const items = await getAllBankQuestions();
+          setBankQuestions(items.sort((a, b) => b.createdAt - a.createdAt));
+      } catch (err: any) {
+          setError(err.message);
+      }
+  };
+
+  const importToBank = async (content: string, defaultSource: string) => {
+      const questions = parseLatexQuestions(content);
+      if (questions.length === 0) throw new Error("Không tìm thấy câu hỏi \\begin{ex} nào để lưu.");
+
+      const existing = new Set((await getAllBankQuestions()).map(q => q.hash));
+      const now = Date.now();
+      const newItems: BankQuestion[] = [];
+      for (const q of questions) {
+          const hash = await sha256Hex(normalizeForHash(q.fullContent));
+          if (existing.has(hash)) continue;
+          existing.add(hash);
+          newItems.push({
+              hash,
+              content: q.fullContent,
+              type: q.type,
+              level: q.level,
+              subject: bankTags.subject.trim(),
+              chapter: bankTags.chapter.trim(),
+              source: bankTags.source.trim() || defaultSource,
+              createdAt: now
+          });
+      }
+      await putBankQuestions(newItems);
+      return { added: newItems.length, skipped: questions.length - newItems.length };
+  };
+
+  const handleImportFilesToBank = async (e: React.ChangeEvent<HTMLInputElement>) => {
+      const files = e.target.files;
+      if (!files || files.length === 0) return;
+
+      setIsLoading(true);
+      setError(null);
+      setLoadingStatus("Đang nhập câu hỏi vào ngân hàng...");
+      try {
+          let added = 0;
+          let skipped = 0;
+          for (let i = 0; i < files.length; i++) {
+              const result = await importToBank(await files[i].text(), files[i].name);
+              added += result.added;
+              skipped += result.skipped;
+          }
+          await loadBankQuestions();
+          alert(`Đã thêm ${added} câu hỏi, bỏ qua ${skipped} câu trùng.`);
+      } catch (err: any) {
+          setError(err.message);
+      } finally {
+          setIsLoading(false);
+          setLoadingStatus("");
+          e.target.value = '';
+      }
+  };
+
+  const handleSaveResultToBank = async () => {
+      const content = contentEditableRef.current ? contentEditableRef.current.innerText : resultContent;
+      try {
+          const { added, skipped } = await importToBank(content, fileName || "Kết quả chuyển đổi");
+          alert(`Đã lưu ${added} câu hỏi vào ngân hàng, bỏ qua ${skipped} câu trùng.`);
+      } catch (err: any) {
+          setError(err.message);
+      }
+  };
+
+  const filteredBankQuestions = bankQuestions.filter(q => {
+      if (bankTypeFilter !== 'all' && q.type !== bankTypeFilter) return false;
+      if (bankLevelFilter && q.level !== bankLevelFilter) return false;
+      const search = bankSearch.trim().toLowerCase();
+      if (!search) return true;
+      return [q.content, q.subject, q.chapter, q.source].some(field => field.toLowerCase().includes(search));
+  });
+
+  const handleToggleBankSelection = (hash: string) => {
+      setBankSelected(prev => prev.includes(hash) ? prev.filter(h => h !== hash) : [...prev, hash]);
+  };
+
+  const handleDeleteBankSelection = async () => {
+      if (bankSelected.length === 0) return;
+      if (!confirm(`Xóa ${bankSelected.length} câu hỏi khỏi ngân hàng?`)) return;
+      try {
+          await deleteBankQuestions(bankSelected);
+          setBankSelected([]);
+          await loadBankQuestions();
+      } catch (err: any) {
+          setError(err.message);
+      }
+  };
+
+  // Send the selected questions to the shuffle tab (as pasted source) or to the filter editor
+  const handleSendBankSelection = (target: 'latex-shuffle' | 'latex') => {
+      const selectedContent = bankQuestions
+          .filter(q => bankSelected.includes(q.hash))
+          .map(q => q.content)
+          .join('\n\n');
+      if (!selectedContent) return;
+
+      handleTabChange(target);
+      if (target === 'latex-shuffle') {
+          setPastedText(selectedContent);
+      } else {
+          setResultContent(selectedContent);
+      }
+  };
+
+  const renderBankTagInputs = () => (
+      <div className="grid grid-cols-3 gap-2">
+          {([
+              ['subject', 'Môn', 'Vật lí'],
+              ['chapter', 'Chương', 'Sóng cơ'],
+              ['source', 'Nguồn', 'Tên file']
+          ] as [keyof BankTags, string, string][]).map(([field, label, placeholder]) => (
+              <div key={field}>
+                  <label className="text-[10px] text-blue-300 block mb-1">{label}</label>
+                  <input 
+                      type="text"
+                      value={bankTags[field]}
+                      onChange={(e) => setBankTags(prev => ({ ...prev, [field]: e.target.value }))}
+                      placeholder={placeholder}
+                      className="w-full min-w-0 bg-blue-800/30 border border-blue-600 rounded p-1 text-white text-xs"
+                  />
+              </div>
+          ))}
+      </div>
+  );
+
+  // Content for the offline tools: selected .tex files, or the editor when none are selected
+  const readFilterSource = async () => {
+    let contentToProcess = "";
+
+    if (filterFiles && filterFiles.length > 0) {
+        for (let i = 0; i < filterFiles.length; i++) {
+            contentToProcess += await filterFiles[i].text() + "\n";
+        }
+    } else {
+        // Fallback to current content if no files selected
+        if (contentEditableRef.current) {
+            // If in LaTeX mode, innerText is usually the code
+            contentToProcess = contentEditableRef.current.innerText;
+        } else {
+            contentToProcess = resultContent;
+        }
+    }
+
+    if (!contentToProcess.trim()) {
+        throw new Error("Không có dữ liệu để lọc. Vui lòng chọn file hoặc đảm bảo khung soạn thảo có nội dung.");
+    }
+    return contentToProcess;
+  };
+
+  // --- DUPLICATE DETECTION ---
+
+  // Canonical form for comparison: no comments/whitespace/\True, \dfrac & \tfrac -> \frac,
+  // options without "A." prefixes and sorted (so option order does not matter)
+  const canonicalizeQuestion = (block: string) => {
+      let text = block
+          .replace(/(^|[^\\])%.*$/gm, '$1')
+          .replace(/\\[dt]frac(?![a-zA-Z])/g, '\\frac')
+          .replace(/\\True\s*/g, '');
+      const parsed = parseChoiceOptions(text);
+      if (parsed && parsed.options.length > 0) {
+          const sortedOptions = parsed.options
+              .map(o => o.text.substring(1, o.text.length - 1).replace(/^\s*[A-Fa-f][.)]\s*/, '').replace(/\s+/g, ''))
+              .sort();
+          text = `${text.substring(0, parsed.start)}${parsed.command}{${sortedOptions.join('}{')}}${text.substring(parsed.end)}`;
+      }
+      return text.replace(/\s+/g, '');
+  };
+
+  const trigramSet = (text: string) => {
+      const set = new Set<string>();
+      for (let i = 0; i + 3 <= text.length; i++) set.add(text.substring(i, i + 3));
+      return set;
+  };
+
+  const jaccardSimilarity = (a: Set<string>, b: Set<string>) => {
+      if (a.size === 0 && b.size === 0) return 1;
+      const [small, large] = a.size < b.size ? [a, b] : [b, a];
+      let intersection = 0;
+      small.forEach(item => { if (large.has(item)) intersection++; });
+      return intersection / (a.size + b.size - intersection);
+  };
+
+  // Exact duplicates share a canonical form; near duplicates are linked when the trigram
+  // Jaccard similarity reaches the threshold (0-1). Clusters are merged transitively.
+  // Yields to the UI every few hundred groups; onProgress gets (done, total).
+  const findDuplicateClusters = async (questions: ReturnType<typeof parseLatexQuestions>, threshold: number, onProgress?: (done: number, total: number) => void) => {
+      const byCanonical = new Map<string, number[]>();
+      questions.forEach((q, i) => {
+          const canonical = canonicalizeQuestion(q.fullContent);
+          byCanonical.set(canonical, [...(byCanonical.get(canonical) || []), i]);
+      });
+      const exactGroups = Array.from(byCanonical.entries());
+      const trigrams = exactGroups.map(([canonical]) => trigramSet(canonical));
+
+      // Union-find over exact groups
+      const parent = exactGroups.map((_, i) => i);
+      const find = (i: number): number => parent[i] === i ? i : (parent[i] = find(parent[i]));
+
+      // Prefix filter: with each set's trigrams sorted rarest first, two sets reaching the threshold
+      // share one of the first |s| - ceil(threshold * |s|) + 1, so only pairs meeting in that
+      // inverted index are compared instead of every pair
+      const frequency = new Map<string, number>();
+      trigrams.forEach(set => set.forEach(t => frequency.set(t, (frequency.get(t) || 0) + 1)));
+      const prefixes = trigrams.map(set => Array.from(set)
+          .sort((a, b) => frequency.get(a)! - frequency.get(b)! || (a < b ? -1 : a > b ? 1 : 0))
+          .slice(0, set.size - Math.ceil(threshold * set.size - 1e-9) + 1));
+      const index = new Map<string, number[]>();
+      for (let i = 0; i < exactGroups.length; i++) {
+          if (i % 200 === 0) {
+              onProgress?.(i, exactGroups.length);
+              await wait(0);
+          }
+          const candidates = new Set<number>();
+          prefixes[i].forEach(t => index.get(t)?.forEach(j => candidates.add(j)));
+          candidates.forEach(j => {
+              const [a, b] = [trigrams[i].size, trigrams[j].size];
+              if (Math.min(a, b) / Math.max(a, b, 1) < threshold) return; // Jaccard can't reach threshold
+              if (find(i) !== find(j) && jaccardSimilarity(trigrams[i], trigrams[j]) >= threshold) {
+                  parent[find(i)] = find(j);
+              }
+          });
+          prefixes[i].forEach(t => {
+              const list = index.get(t);
+              if (list) list.push(i);
+              else index.set(t, [i]);
+          });
+      }
+
+      const merged = new Map<number, number[]>(); // root -> exact group indexes
+      exactGroups.forEach((_, i) => merged.set(find(i), [...(merged.get(find(i)) || []), i]));
+
+      const clusters: DuplicateCluster[] = [];
+      merged.forEach(groupIndexes => {
+          const memberIndexes = groupIndexes.flatMap(g => exactGroups[g][1]).sort((a, b) => a - b);
+          if (memberIndexes.length < 2) return;
+          const first = groupIndexes.find(g => exactGroups[g][1].includes(memberIndexes[0]))!;
+          clusters.push({
+              exact: groupIndexes.length === 1,
+              members: memberIndexes.map(idx => {
+                  const g = groupIndexes.find(gi => exactGroups[gi][1].includes(idx))!;
+                  return { id: questions[idx].id, similarity: g === first ? 1 : jaccardSimilarity(trigrams[first], trigrams[g]) };
+              }),
+              keepId: questions[memberIndexes[0]].id
+          });
+      });
+      return clusters.sort((a, b) => questions.findIndex(q => q.id === a.keepId) - questions.findIndex(q => q.id === b.keepId));
+  };
+
+  const handleFindDuplicates = async () => {
+    setIsLoading(true);
+    setLoadingStatus("Đang tìm câu trùng lặp...");
+    setError(null);
+    setDuplicateReport(null);
+
+    try {
+        const source = await readFilterSource();
+        const questions = parseLatexQuestions(source);
+        const clusters = await findDuplicateClusters(questions, dupThreshold / 100, (done, total) =>
+            setLoadingStatus(`Đang tìm câu trùng lặp... ${done}/${total} nhóm`)
+        );
+        setDuplicateReport({ source, questions, clusters });
+        if (clusters.length === 0) {
+            alert(`Không tìm thấy câu trùng trong ${questions.length} câu hỏi.`);
+        }
+    } catch (err: any) {
+        setError(err.message);
+    } finally {
+        setIsLoading(false);
+        setLoadingStatus("");
+    }
+  };
+
+  const handleKeepDuplicate = (clusterIndex: number, id: string) => {
+    setDuplicateReport(prev => prev && {
+        ...prev,
+        clusters: prev.clusters.map((c, i) => i === clusterIndex ? { ...c, keepId: id } : c)
+    });
+  };
+
+  // Cut the dropped \begin{ex} blocks out of the scanned source in place, so the preamble,
+  // headings and group stems survive. Block order matches parseLatexQuestions' q_N ids.
+  const handleApplyDeduplication = () => {
+    if (!duplicateReport) return;
+    const dropped = new Set(duplicateReport.clusters.flatMap(c => c.members.map(m => m.id).filter(id => id !== c.keepId)));
+    let count = 0;
+    const output = duplicateReport.source.replace(/\\begin{ex}[\s\S]*?\\end{ex}\s*/g, block =>
+        dropped.has(`q_${count++}`) ? '' : block
+    );
+    setResultContent(output);
+    setDuplicateReport(null);
+    alert(`Đã giữ ${duplicateReport.questions.length - dropped.size} câu, loại ${dropped.size} câu trùng.`);
+  };
+
+  // --- FIGURE EXTRACTION ---
+
+  // End index (exclusive) of the brace group starting at `start`, or -1 if there is none
+  const readBraceGroup = (content: string, start: number) => {
+      if (content[start] !== '{') return -1;
+      let braceCount = 1;
+      let cursor = start + 1;
+      while (cursor < content.length && braceCount > 0) {
+          if (content[cursor] === '{') braceCount++;
+          else if (content[cursor] === '}') braceCount--;
+          cursor++;
+      }
+      return braceCount === 0 ? cursor : -1;
+  };
+
+  // \immini figure arguments first (they usually wrap a tikzpicture or an image),
+  // then tikzpicture environments and \includegraphics outside of them
+  const extractFiguresFromQuestion = (content: string) => {
+      const figures: { kind: ExtractedFigure['kind'], code: string, start: number, end: number }[] = [];
+      const isCovered = (pos: number) => figures.some(f => pos >= f.start && pos < f.end);
+
+      const imminiRegex = /\\immini(\[[^\]]*\])?\s*\{/g;
+      let match;
+      while ((match = imminiRegex.exec(content)) !== null) {
+          const textEnd = readBraceGroup(content, match.index + match[0].length - 1);
+          if (textEnd === -1) continue;
+          let figureStart = textEnd;
+          while (/\s/.test(content[figureStart] || '')) figureStart++;
+          const figureEnd = readBraceGroup(content, figureStart);
+          if (figureEnd === -1) continue;
+          figures.push({ kind: 'immini', code: content.substring(figureStart + 1, figureEnd - 1).trim(), start: figureStart, end: figureEnd });
+      }
+
+      const tikzRegex = /\\begin{tikzpicture}[\s\S]*?\\end{tikzpicture}/g;
+      while ((match = tikzRegex.exec(content)) !== null) {
+          if (isCovered(match.index)) continue;
+          figures.push({ kind: 'tikz', code: match[0], start: match.index, end: match.index + match[0].length });
+      }
+
+      const imageRegex = /\\includegraphics\s*(\[[^\]]*\])?\s*\{[^}]*\}/g;
+      while ((match = imageRegex.exec(content)) !== null) {
+          if (isCovered(match.index)) continue;
+          figures.push({ kind: 'image', code: match[0], start: match.index, end: match.index + match[0].length });
+      }
+
+      return figures.sort((a, b) => a.start - b.start);
+  };
+
+  // Standalone document: one figure per page, labelled with the question it came from
+  const buildFigureDocument = (figures: ExtractedFigure[]) => {
+      const pages = figures.map((f, idx) => `% Hình ${idx + 1} - Câu ${f.questionNumber} (${f.questionId}) - ${f.kind}
+\\begin{center}
+\\textbf{Hình ${idx + 1} - Câu ${f.questionNumber}}\\par\\medskip
+${f.code}
+\\end{center}
+\\newpage`);
+      return `${buildDefaultPreamble(examHeader)}\\begin{document}
+${pages.join('\n\n')}
+\\end{document}
+`;
+  };
+
+  // --- LATEX VALIDATION ---
+
+  // Structural checks on converted / shuffled output. Positions refer to `text`;
+  // fixes are only offered where the intended result is unambiguous.
+  const lintLatex = (text: string): LintIssue[] => {
+      const issues: LintIssue[] = [];
+      const lineStarts = [0];
+      for (let i = 0; i < text.length; i++) if (text[i] === '\n') lineStarts.push(i + 1);
+      const lineAt = (pos: number) => {
+          let lo = 0, hi = lineStarts.length - 1;
+          while (lo < hi) {
+              const mid = (lo + hi + 1) >> 1;
+              if (lineStarts[mid] <= pos) lo = mid; else hi = mid - 1;
+          }
+          return lo + 1;
+      };
+      const isCommented = (pos: number) => /(^|[^\\])%/.test(text.substring(lineStarts[lineAt(pos) - 1], pos));
+
+      // 1. \begin{ex} / \end{ex} pairing
+      const blocks: { start: number, end: number, number: number, closed: boolean }[] = [];
+      const exRegex = /\\(begin|end)\{ex\}/g;
+      let match;
+      let open: { start: number, number: number } | null = null;
+      let questionCount = 0;
+      while ((match = exRegex.exec(text)) !== null) {
+          if (isCommented(match.index)) continue;
+          if (match[1] === 'begin') {
+              if (open) {
+                  blocks.push({ start: open.start, end: match.index, number: open.number, closed: false });
+                  issues.push({
+                      line: lineAt(open.start), questionNumber: open.number, severity: 'error',
+                      message: '\\begin{ex} không có \\end{ex} tương ứng.',
+                      fix: { label: 'Thêm \\end{ex}', edits: [{ start: match.index, end: match.index, replacement: '\\end{ex}\n' }] }
+                  });
+              }
+              open = { start: match.index, number: ++questionCount };
+          } else if (open) {
+              blocks.push({ start: open.start, end: match.index + match[0].length, number: open.number, closed: true });
+              open = null;
+          } else {
+              issues.push({
+                  line: lineAt(match.index), severity: 'error',
+                  message: '\\end{ex} thừa (không có \\begin{ex} trước đó).',
+                  fix: { label: 'Xóa \\end{ex} thừa', edits: [{ start: match.index, end: match.index + match[0].length, replacement: '' }] }
+              });
+          }
+      }
+      if (open) {
+          const docEnd = text.indexOf('\\end{document}', open.start);
+          const insertAt = docEnd === -1 ? text.length : docEnd;
+          blocks.push({ start: open.start, end: insertAt, number: open.number, closed: false });
+          issues.push({
+              line: lineAt(open.start), questionNumber: open.number, severity: 'error',
+              message: '\\begin{ex} không có \\end{ex} tương ứng.',
+              fix: { label: 'Thêm \\end{ex}', edits: [{ start: insertAt, end: insertAt, replacement: docEnd === -1 ? '\n\\end{ex}\n' : '\\end{ex}\n' }] }
+          });
+      }
+      const questionAt = (pos: number) => blocks.find(b => pos >= b.start && pos < b.end)?.number;
+
+      // 2. Brace balance (escaped \{ \} and comments ignored)
+      const openBraces: number[] = [];
+      for (let i = 0; i < text.length; i++) {
+          const ch = text[i];
+          if (ch === '\\') { i++; continue; }
+          if (ch === '%') {
+              while (i < text.length && text[i] !== '\n') i++;
+              continue;
+          }
+          if (ch === '{') openBraces.push(i);
+          else if (ch === '}') {
+              if (openBraces.length) openBraces.pop();
+              else issues.push({ line: lineAt(i), questionNumber: questionAt(i), severity: 'error', message: 'Dấu } thừa (không có { tương ứng).' });
+          }
+      }
+      openBraces.forEach(pos => issues.push({ line: lineAt(pos), questionNumber: questionAt(pos), severity: 'error', message: 'Dấu { chưa được đóng.' }));
+
+      // 3. Options of each complete question
+      blocks.filter(b => b.closed).forEach(block => {
+          const content = text.substring(block.start, block.end);
+          const parsed = parseChoiceOptions(content);
+          if (!parsed) return;
+          const isTF = parsed.command !== '\\choice';
+          const line = lineAt(block.start + parsed.start);
+          const base = { line, questionNumber: block.number };
+
+          if (parsed.options.length !== STANDARD_OPTION_COUNT) {
+              issues.push({ ...base, severity: 'warning', message: `${parsed.command} có ${parsed.options.length} phương án (chuẩn là ${STANDARD_OPTION_COUNT}).` });
+          }
+
+          const trueCount = parsed.options.filter(o => /\\True(?![a-zA-Z])/.test(o.text)).length;
+          if (!isTF && trueCount === 0) {
+              issues.push({ ...base, severity: 'error', message: 'Câu trắc nghiệm thiếu \\True.' });
+          } else if (!isTF && trueCount > 1) {
+              issues.push({ ...base, severity: 'error', message: `Câu trắc nghiệm có ${trueCount} \\True (chỉ được 1).` });
+          } else if (isTF && trueCount === 0) {
+              issues.push({ ...base, severity: 'warning', message: 'Câu Đúng/Sai không có \\True (mọi ý đều sai?).' });
+          }
+
+          // Leftover "A." / "b)" labels: only when the letter matches the option's position
+          const edits: LintEdit[] = [];
+          parsed.options.forEach((o, idx) => {
+              const letter = String.fromCharCode(65 + idx);
+              const prefix = new RegExp(`^(\\s*(?:\\\\True\\s*)?)(?:${letter}[.):]|\\(${letter}\\))(?![A-Za-z0-9])\\s*`, 'i').exec(o.text.substring(1));
+              if (!prefix) return;
+              const start = block.start + o.start + 1 + prefix[1].length;
+              edits.push({ start, end: block.start + o.start + 1 + prefix[0].length, replacement: '' });
+          });
+          if (edits.length > 0) {
+              issues.push({
+                  ...base, severity: 'warning',
+                  message: `Còn ${edits.length} nhãn phương án kiểu "A." / "a)" trong ${parsed.command}.`,
+                  fix: { label: 'Xóa nhãn', edits }
+              });
+          }
+      });
+
+      return issues.sort((a, b) => a.line - b.line);
+  };
+
+  const readEditorLatex = () => contentEditableRef.current ? contentEditableRef.current.innerText : resultContent;
+
+  const handleLintLatex = () => {
+      const text = readEditorLatex();
+      if (!text.trim()) return;
+      const issues = lintLatex(text);
+      setLintReport({ text, issues });
+      if (issues.length === 0) alert("Không phát hiện lỗi LaTeX.");
+  };
+
+  // Apply edits from the bottom up so earlier offsets stay valid; overlapping edits are skipped
+  const applyTextEdits = (text: string, edits: LintEdit[]) => {
+      let result = text;
+      let limit = Infinity;
+      [...edits].sort((a, b) => b.start - a.start).forEach(edit => {
+          if (edit.end > limit) return;
+          result = result.substring(0, edit.start) + edit.replacement + result.substring(edit.end);
+          limit = edit.start;
+      });
+      return result;
+  };
+
+  const applyLintEdits = (edits: LintEdit[]) => {
+      if (!lintReport) return;
+      const current = readEditorLatex();
+      if (current !== lintReport.text) {
+          setLintReport({ text: current, issues: lintLatex(current) });
+          alert("Nội dung đã thay đổi sau lần kiểm tra. Đã kiểm tra lại, vui lòng thử lại.");
+          return;
+      }
+      const fixed = applyTextEdits(current, edits);
+      setResultContent(fixed);
+      setLintReport({ text: fixed, issues: lintLatex(fixed) });
+  };
+
+  // Map a [start, end) offset range of the editor text onto its DOM text nodes
+  const createEditorRange = (root: HTMLElement, start: number, end: number) => {
+      const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+      const range = document.createRange();
+      let offset = 0;
+      let startSet = false;
+      let node: Node | null;
+      while ((node = walker.nextNode())) {
+          const length = node.textContent?.length || 0;
+          if (!startSet && start <= offset + length) {
+              range.setStart(node, start - offset);
+              startSet = true;
+          }
+          if (startSet && end <= offset + length) {
+              range.setEnd(node, end - offset);
+              return range;
+          }
+          offset += length;
+      }
+      return null;
+  };
+
+  const lineRange = (text: string, line: number) => {
+      const lines = text.split('\n');
+      const start = lines.slice(0, line - 1).reduce((sum, l) => sum + l.length + 1, 0);
+      return { start, end: start + (lines[line - 1] || '').length };
+  };
+
+  const handleFocusLintIssue = (issue: LintIssue) => {
+      const editor = contentEditableRef.current;
+      if (!editor || !lintReport) return;
+      const { start, end } = lineRange(lintReport.text, issue.line);
+      const range = createEditorRange(editor, start, end);
+      if (!range) return;
+      const selection = window.getSelection();
+      selection?.removeAllRanges();
+      selection?.addRange(range);
+      const scroller = editor.closest('.overflow-y-auto');
+      if (scroller) {
+          scroller.scrollBy({ top: range.getBoundingClientRect().top - scroller.getBoundingClientRect().top - 120, behavior: 'smooth' });
+      }
+  };
+
+  // --- ANSWER TABLE ---
+
+  // "C" -> choice, "a)Đ b)S..." / "ĐSĐS" -> tf, "-2,5" -> short; anything else is not an answer
+  const classifyAnswer = (raw: string): Pick<AnswerTableEntry, 'kind' | 'value'> | null => {
+      const value = raw.trim().replace(/[\s,;.]+$/, '');
+      if (/^[A-F]$/.test(value)) return { kind: 'choice', value };
+      const tf = value
+          .replace(/đúng/gi, 'Đ').replace(/sai/gi, 'S')
+          .replace(/\(?[a-f]\)\s*/g, '')
+          .replace(/[\s,;\-–/]+/g, '');
+      if (/^[ĐđDdTtSsFf]{2,6}$/.test(tf)) {
+          return { kind: 'tf', value: tf.split('').map(c => /[SsFf]/.test(c) ? 'S' : 'Đ').join('') };
+      }
+      if (/^[-−]?\d+(?:[.,]\d+)?$/.test(value)) return { kind: 'short', value: value.replace('−', '-') };
+      return null;
+  };
+
+  // Reads "1.A 2.C 3.B", "Câu 1: A", "1. ĐSĐS", "1. 2,5" and two-row tables (Câu | 1 | 2 ... / Đáp án | A | C ...)
+  // in plain text, LaTeX tabular or HTML. "PHẦN I/II/III" headings restart the numbering.
+  const parseAnswerTable = (source: string): AnswerTableEntry[] => {
+      const text = source
+          .replace(/<\/t[dh]>/gi, ' & ')
+          .replace(/<\/tr>|<br\s*\/?>/gi, '\n')
+          .replace(/<[^>]+>/g, ' ')
+          .replace(/(^|[^\\])%.*$/gm, '$1')
+          .replace(/\\begin\{tabular\}\{[^}]*\}/g, ' ')
+          .replace(/\\\\/g, '\n')
+          .replace(/\\[a-zA-Z]+\*?/g, ' ')
+          .replace(/[{}$]/g, ' ');
+
+      const entries = new Map<string, AnswerTableEntry>();
+      const add = (part: number, number: number, raw: string) => {
+          const answer = classifyAnswer(raw);
+          if (answer) entries.set(`${part}:${number}`, { part, number, ...answer });
+      };
+
+      let part = 0;
+      let pendingNumbers: number[] | null = null;
+      text.split('\n').forEach(rawLine => {
+          let line = rawLine;
+          const heading = /phần\s+(III|II|I|[1-3])(?![a-zA-Z])[.:]?/i.exec(line);
+          if (heading) {
+              part = { I: 1, II: 2, III: 3 }[heading[1].toUpperCase()] || Number(heading[1]);
+              line = line.substring(heading.index + heading[0].length);
+              pendingNumbers = null;
+          }
+
+          // Table rows: a row of question numbers followed by a row of answers
+          const cells = line.split(/[&|]/).map(c => c.trim()).filter(Boolean);
+          if (cells.length > 0 && cells.every(c => /^[-:]+$/.test(c))) return; // Markdown separator row
+          if (cells.length >= 2) {
+              const values = /^\d+$/.test(cells[0]) ? cells : cells.slice(1);
+              if (values.length > 0 && values.every(c => /^\d{1,3}$/.test(c))) {
+                  pendingNumbers = values.map(Number);
+                  return;
+              }
+              if (pendingNumbers) {
+                  const answers = values.length === pendingNumbers.length ? values : cells;
+                  pendingNumbers.forEach((n, i) => answers[i] !== undefined && add(part, n, answers[i]));
+                  pendingNumbers = null;
+                  return;
+              }
+          }
+
+          // Inline entries; "2.5" is a decimal, not question 2
+          const starts = [...line.matchAll(/(?:[Cc]âu\s*)?(\d{1,3})\s*(?:[.:)\-](?!\d)|(?=[A-F](?![a-zA-Z])))/g)];
+          starts.forEach((m, i) => {
+              const valueEnd = i + 1 < starts.length ? starts[i + 1].index! : line.length;
+              add(part, Number(m[1]), line.substring(m.index! + m[0].length, valueEnd));
+          });
+      });
+      return [...entries.values()];
+  };
+
+  // Answer table in the converted output: text after the last question, from a "Đáp án" heading if any
+  const findAnswerTableInOutput = (latex: string) => {
+      const lastEx = latex.lastIndexOf('\\end{ex}');
+      let tail = (lastEx === -1 ? latex : latex.substring(lastEx + '\\end{ex}'.length)).replace(/\\end{document}[\s\S]*$/, '');
+      const heading = /đáp\s*án/i.exec(tail);
+      if (heading) tail = tail.substring(heading.index);
+      return tail;
+  };
+
+  // Inject \True / \shortans values from the table. Numbering is per part (TN = I, TF = II, TL = III)
+  // when the table has PHẦN headings, otherwise continuous over all questions.
+  const applyAnswerTable = (latex: string, entries: AnswerTableEntry[]) => {
+      const hasParts = entries.some(e => e.part > 0);
+      const partOfType = { TN: 1, TF: 2, TL: 3 };
+      const counters = [0, 0, 0, 0];
+      const labelOf = (part: number, number: number) => part > 0 ? `Phần ${['I', 'II', 'III'][part - 1]} câu ${number}` : `Câu ${number}`;
+      const used = new Set<AnswerTableEntry>();
+      const edits: LintEdit[] = [];
+      const messages: string[] = [];
+      let applied = 0;
+      let cursor = 0;
+
+      const setOptionTruth = (optionText: string, truth: boolean) => {
+          const inner = optionText.substring(1, optionText.length - 1);
+          const hasTrue = /\\True(?![a-zA-Z])/.test(inner);
+          if (hasTrue === truth) return null;
+          return truth
+              ? `{\\True ${inner.replace(/^\s+/, '')}}`
+              : `{${inner.replace(/\\True(?![a-zA-Z])\s*/g, '')}}`;
+      };
+
+      parseLatexQuestions(latex).forEach(q => {
+          const start = latex.indexOf(q.fullContent, cursor);
+          cursor = start + q.fullContent.length;
+          const part = hasParts ? partOfType[q.type] : 0;
+          const number = ++counters[part];
+          const label = labelOf(part, number);
+          const entry = entries.find(e => e.part === part && e.number === number);
+          if (!entry) {
+              messages.push(`${label}: không có trong bảng đáp án.`);
+              return;
+          }
+          used.add(entry);
+
+          const expectedKind = { TN: 'choice', TF: 'tf', TL: 'short' }[q.type];
+          if (entry.kind !== expectedKind) {
+              messages.push(`${label}: đáp án "${entry.value}" không khớp loại câu ${q.type}.`);
+              return;
+          }
+
+          if (q.type === 'TL') {
+              const shortans = /\\shortans\s*(\[[^\]]*\])?\s*\{/.exec(q.fullContent);
+              const valueEnd = shortans ? readBraceGroup(q.fullContent, shortans.index + shortans[0].length - 1) : -1;
+              if (!shortans || valueEnd === -1) {
+                  messages.push(`${label}: không có \\shortans để điền đáp án ${entry.value}.`);
+                  return;
+              }
+              const valueStart = shortans.index + shortans[0].length;
+              const current = q.fullContent.substring(valueStart, valueEnd - 1).trim();
+              if (current && current !== entry.value) messages.push(`${label}: \\shortans{${current}} được thay bằng ${entry.value}.`);
+              edits.push({ start: start + valueStart, end: start + valueEnd - 1, replacement: entry.value });
+              applied++;
+              return;
+          }
+
+          const parsed = parseChoiceOptions(q.fullContent)!;
+          const truths = q.type === 'TN'
+              ? parsed.options.map((_, i) => i === entry.value.charCodeAt(0) - 65)
+              : entry.value.split('').map(c => c === 'Đ');
+          if (q.type === 'TN' && !truths.includes(true)) {
+              messages.push(`${label}: đáp án ${entry.value} nhưng câu chỉ có ${parsed.options.length} phương án.`);
+              return;
+          }
+          if (truths.length !== parsed.options.length) {
+              messages.push(`${label}: đáp án ${entry.value} có ${truths.length} ý, câu có ${parsed.options.length} ý.`);
+              return;
+          }
+          const existing = parsed.options.map(o => /\\True(?![a-zA-Z])/.test(o.text));
+          if (existing.some(Boolean) && existing.some((t, i) => t !== truths[i])) {
+              const describe = (values: boolean[]) => q.type === 'TN'
+                  ? values.map((t, i) => t ? String.fromCharCode(65 + i) : '').join('') || 'không có'
+                  : values.map(t => t ? 'Đ' : 'S').join('');
+              messages.push(`${label}: \\True đang ở ${describe(existing)}, sửa theo bảng thành ${describe(truths)}.`);
+          }
+          parsed.options.forEach((o, i) => {
+              const replacement = setOptionTruth(o.text, truths[i]);
+              if (replacement !== null) edits.push({ start: start + o.start, end: start + o.end, replacement });
+          });
+          applied++;
+      });
+
+      entries.filter(e => !used.has(e)).forEach(e => messages.push(`Bảng đáp án có ${labelOf(e.part, e.number)} nhưng không tìm thấy câu tương ứng.`));
+      return { latex: applyTextEdits(latex, edits), applied, messages };
+  };
+
+  const handleApplyAnswerTable = () => {
+      const latex = readEditorLatex();
+      const source = answerTableText.trim() || findAnswerTableInOutput(latex);
+      const entries = parseAnswerTable(source);
+      if (entries.length === 0) {
+          setError("Không tìm thấy bảng đáp án. Hãy dán bảng đáp án (vd: 1.A 2.C 3.B) hoặc đọc từ các trang cuối của PDF.");
+          return;
+      }
+      setError(null);
+      const result = applyAnswerTable(latex, entries);
+      setResultContent(result.latex);
+      setAnswerTableReport({ applied: result.applied, messages: result.messages });
+  };
+
+  const handleReadAnswerTableFromPdf = async () => {
+    if (!file || file.type !== 'application/pdf') return setError("Cần tải file PDF để đọc bảng đáp án ở các trang cuối.");
+    if (!window.pdfjsLib) return setError("Thư viện PDF chưa tải xong. Vui lòng đợi 3 giây rồi thử lại.");
+
+    const markedPages = pdfPages.filter(p => p.answerOnly).map(p => p.page);
+    setIsLoading(true);
+    setLoadingStatus(markedPages.length ? "Đang đọc bảng đáp án ở các trang đã đánh dấu..." : "Đang đọc bảng đáp án ở các trang cuối...");
+    setError(null);
+
+    try {
+        const pdfDoc = await window.pdfjsLib.getDocument(await file.arrayBuffer()).promise;
+        const lastPages = Array.from({ length: pdfDoc.numPages }, (_, i) => i + 1).slice(-answerTablePages);
+        const imageParts = [];
+        for (const p of markedPages.length ? markedPages : lastPages) {
+            imageParts.push(await renderPdfPageToPart(pdfDoc, p));
+        }
+        const table = await extractAnswerTableWithAI(imageParts);
+        if (parseAnswerTable(table).length === 0) throw new Error(`Không tìm thấy bảng đáp án trong các trang ${markedPages.length ? 'đã đánh dấu' : 'cuối'}.`);
+        setAnswerTableText(table);
+    } catch (err: any) {
+        setError(err.message);
+    } finally {
+        setIsLoading(false);
+        setLoadingStatus("");
+    }
+  };
+
+  // --- STATISTICS ---
+
+  // Plain words of a question: no comments, math, commands or braces
+  const questionPlainText = (block: string) => block
+      .replace(/(^|[^\\])%.*$/gm, '$1')
+      .replace(/\$\$[\s\S]*?\$\$|\$[^$]*\$|\\\[[\s\S]*?\\\]|\\\([\s\S]*?\\\)/g, ' ')
+      .replace(/\\begin{tikzpicture}[\s\S]*?\\end{tikzpicture}/g, ' ')
+      .replace(/\\(begin|end)\s*\{[^}]*\}/g, ' ')
+      .replace(/\\[a-zA-Z]+\*?(\[[^\]]*\])?/g, ' ')
+      .replace(/[{}]/g, ' ')
+      .toLowerCase();
+
+  const computeQuestionStatistics = (questions: ReturnType<typeof parseLatexQuestions>): QuestionStatistics => {
+      const bodyLength = (block: string) => block.replace(/\\begin{ex}|\\end{ex}/g, '').replace(/\s+/g, ' ').trim().length;
+      const hasFigure = (block: string) => block.includes('\\begin{tikzpicture}') || block.includes('\\includegraphics');
+      const isMissingTrue = (q: typeof questions[number]) => q.type !== 'TL' && !q.fullContent.includes('\\True');
+      const isEmptyShortans = (block: string) => /\\shortans\s*(\[[^\]]*\])?\s*\{\s*\}/.test(block);
+      const average = (values: number[]) => values.length ? Math.round(values.reduce((a, b) => a + b, 0) / values.length) : 0;
+      const numbersWhere = (test: (q: typeof questions[number]) => boolean) =>
+          questions.map((q, i) => test(q) ? i + 1 : 0).filter(n => n > 0);
+
+      const byType = (['TN', 'TF', 'TL'] as const).map(type => {
+          const ofType = questions.filter(q => q.type === type);
+          return {
+              type,
+              count: ofType.length,
+              avgLength: average(ofType.map(q => bodyLength(q.fullContent))),
+              missingTrue: ofType.filter(isMissingTrue).length,
+              emptyShortans: ofType.filter(q => isEmptyShortans(q.fullContent)).length,
+              withFigure: ofType.filter(q => hasFigure(q.fullContent)).length
+          };
+      });
+
+      const byLevel = LEVEL_NAMES.map((label, i) => ({ label, count: questions.filter(q => q.level === i + 1).length }));
+      byLevel.push({ label: 'Chưa gắn nhãn', count: questions.filter(q => !q.level).length });
 
-\\hetde
-\\label{${code}}
-\\newpage
-`;
+      // Keywords are two-syllable phrases (most Vietnamese terms are), counted once per question
+      const keywordCounts = new Map<string, number>();
+      questions.forEach(q => {
+          const seen = new Set<string>();
+          questionPlainText(q.fullContent).split(/[^\p{L}\s]+/u).forEach(segment => {
+              const syllables = segment.split(/\s+/).filter(Boolean);
+              for (let i = 0; i + 1 < syllables.length; i++) {
+                  const [a, b] = [syllables[i], syllables[i + 1]];
+                  if (a.length < 2 || b.length < 2 || KEYWORD_STOPWORDS.has(a) || KEYWORD_STOPWORDS.has(b)) continue;
+                  seen.add(`${a} ${b}`);
+              }
+          });
+          seen.forEach(k => keywordCounts.set(k, (keywordCounts.get(k) || 0) + 1));
       });
+      const keywords = [...keywordCounts.entries()]
+          .filter(([, count]) => count > 1)
+          .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+          .slice(0, 20)
+          .map(([keyword, count]) => ({ keyword, count }));
 
-      // --- CREATE ANSWER KEYS FOR ALL CODES ---
-      finalLatex += `
-\\setcounter{page}{1}
-\\rfoot{Trang \\thepage $-$ Đáp án các mã đề}
-\\foreach\\i in {${codes.join(',')}}{
-\\begin{center}
-\\bf ĐÁP ÁN PHẦN TRẮC NGHIỆM 4 PHƯƠNG ÁN - MÃ ĐỀ \\i\\vspace{12pt}
-\\inputansbox[1]{9}{ansMyLTTN\\i}
-\\bf ĐÁP ÁN PHẦN TRẮC NGHIỆM ĐÚNG SAI
-\\inputansbox[2]{2}{ansMyLTTF\\i}
-\\bf ĐÁP ÁN PHẦN TỰ LUẬN
-\\inputansbox[3]{6}{ansMyLTTL\\i}
-\\end{center}
-}
-\\end{document}
-`;
-      
-      return finalLatex;
+      return {
+          total: questions.length,
+          avgLength: average(questions.map(q => bodyLength(q.fullContent))),
+          byType,
+          byLevel,
+          missingTrue: numbersWhere(isMissingTrue),
+          emptyShortans: numbersWhere(q => isEmptyShortans(q.fullContent)),
+          withFigure: numbersWhere(q => hasFigure(q.fullContent)),
+          keywords
+      };
   };
 
-  const executeLatexShuffle = async () => {
-      if (!file && !pastedText) return setError("Vui lòng tải file .tex hoặc dán nội dung.");
-      
-      setIsLoading(true);
-      setError(null);
-      setLoadingStatus("Đang đọc file...");
-      
-      try {
-          let content = "";
-          if (file) {
-              content = await file.text();
-          } else {
-              content = pastedText;
-          }
+  const handleComputeStatistics = async () => {
+    setIsLoading(true);
+    setLoadingStatus("Đang thống kê...");
+    setError(null);
+    setStatsReport(null);
 
-          if (!content) throw new Error("File rỗng.");
-          
-          setLoadingStatus("Đang phân tích và trộn đề...");
-          await wait(500); // UI feel
+    try {
+        const questions = parseLatexQuestions(await readFilterSource());
+        if (questions.length === 0) throw new Error("Không tìm thấy câu hỏi \\begin{ex}...\\end{ex} nào để thống kê.");
+        setStatsReport(computeQuestionStatistics(questions));
+    } catch (err: any) {
+        setError(err.message);
+    } finally {
+        setIsLoading(false);
+        setLoadingStatus("");
+    }
+  };
 
-          const codes = shuffleCodes.split(',').map(c => c.trim()).filter(c => c);
-          if (codes.length === 0) throw new Error("Vui lòng nhập ít nhất 1 mã đề.");
+  const handleDownloadStatistics = () => {
+      if (!statsReport) return;
+      const rows: (string | number)[][] = [
+          ['Tổng số câu', statsReport.total],
+          ['Độ dài TB (ký tự)', statsReport.avgLength],
+          [],
+          ['Loại', 'Số câu', 'Độ dài TB', 'Thiếu \\True', 'Shortans rỗng', 'Có hình'],
+          ...statsReport.byType.map(t => [t.type, t.count, t.avgLength, t.missingTrue, t.emptyShortans, t.withFigure]),
+          [],
+          ['Mức độ', 'Số câu'],
+          ...statsReport.byLevel.map(l => [l.label, l.count]),
+          [],
+          ['Câu thiếu \\True', statsReport.missingTrue.join(' ')],
+          ['Câu shortans rỗng', statsReport.emptyShortans.join(' ')],
+          ['Câu có hình', statsReport.withFigure.join(' ')],
+          [],
+          ['Từ khóa', 'Số câu'],
+          ...statsReport.keywords.map(k => [k.keyword, k.count])
+      ];
+      downloadCsv(rows, `ThongKe_${filterFiles?.[0]?.name.split('.')[0] || 'CauHoi'}.csv`);
+  };
 
-          const finalLatex = shuffleLatexContent(content, codes, disableTFShuffle);
-          
-          setResultContent(finalLatex);
-          setLoadingStatus("");
-          setProgress(100);
-      } catch (err: any) {
-          setError(err.message);
-      } finally {
-          setIsLoading(false);
+  // --- FILTER QUERY LANGUAGE ---
+  // Terms are ANDed by default; OR / "," / "|" for alternatives, NOT / "-" to negate, ( ) to group.
+  // "-" before a digit stays part of the word (-2). A plain comma list without any other syntax
+  // keeps its old meaning: each item is a phrase and any of them may match.
+  // "quoted phrase", /regex/flags, and field predicates:
+  //   type:tn|tf|tl   has:tikz|image|figure|true|shortans   answer:empty   level:nb|th|vd|vdc|1-4
+  // Plain words and phrases ignore case and Vietnamese diacritics ("song dung" matches "sóng dừng").
+
+  const foldDiacritics = (text: string) => text
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .replace(/[đĐ]/g, 'd')
+      .toLowerCase();
+
+  const compileFilterQuery = (query: string): ((ctx: FilterContext) => boolean) => {
+      type Token = { kind: 'lparen' | 'rparen' | 'or' | 'and' | 'not' | 'term', test?: (ctx: FilterContext) => boolean };
+      const tokens: Token[] = [];
+      const tokenRegex = /\s*(?:(\()|(\))|(,|\|\||\|)|(&&|&)|"([^"]*)"|\/((?:\\.|[^\/\\])+)\/([gimsuy]*)|(-)(?=[^\s\d])|([^\s(),"|&]+))/y;
+
+      const phraseTest = (phrase: string) => {
+          const folded = foldDiacritics(phrase);
+          return (ctx: FilterContext) => foldDiacritics(ctx.content).includes(folded);
+      };
+
+      if (query.includes(',') && !/["()\/|&:]|(^|[\s,])-(?=[^\s\d])|\b(?:OR|AND|NOT)\b/.test(query)) {
+          const phrases = query.split(',').map(k => k.trim()).filter(Boolean).map(phraseTest);
+          return ctx => phrases.some(test => test(ctx));
+      }
+
+      const predicateTest = (field: string, value: string): ((ctx: FilterContext) => boolean) | null => {
+          const v = value.toLowerCase();
+          if (field === 'type') {
+              const type = { tn: 'TN', tf: 'TF', tl: 'TL' }[v];
+              if (!type) throw new Error(`Giá trị không hợp lệ "${field}:${value}" (dùng tn, tf, tl).`);
+              return ctx => ctx.type === type;
+          }
+          if (field === 'has') {
+              const checks: Record<string, (c: string) => boolean> = {
+                  tikz: c => c.includes('\\begin{tikzpicture}'),
+                  image: c => c.includes('\\includegraphics'),
+                  figure: c => c.includes('\\begin{tikzpicture}') || c.includes('\\includegraphics'),
+                  true: c => c.includes('\\True'),
+                  shortans: c => c.includes('\\shortans')
+              };
+              if (!checks[v]) throw new Error(`Giá trị không hợp lệ "${field}:${value}" (dùng ${Object.keys(checks).join(', ')}).`);
+              return ctx => checks[v](ctx.content);
+          }
+          if (field === 'answer') {
+              if (v !== 'empty') throw new Error(`Giá trị không hợp lệ "${field}:${value}" (dùng answer:empty).`);
+              // No \True in a choice question, or an empty \shortans{}
+              return ctx => /\\shortans\s*(\[[^\]]*\])?\s*\{\s*\}/.test(ctx.content) ||
+                  (/\\choice/.test(ctx.content) && !ctx.content.includes('\\True'));
+          }
+          if (field === 'level') {
+              const level = parseQuestionLevel(`%level:${v}`);
+              if (!level) throw new Error(`Giá trị không hợp lệ "${field}:${value}" (dùng nb, th, vd, vdc).`);
+              return ctx => parseQuestionLevel(ctx.content) === level;
+          }
+          return null;
+      };
+
+      let pos = 0;
+      while (pos < query.length) {
+          tokenRegex.lastIndex = pos;
+          const m = tokenRegex.exec(query);
+          if (!m || m[0].length === 0) {
+              if (query.substring(pos).trim() === '') break;
+              throw new Error(`Cú pháp lọc không hợp lệ gần "${query.substring(pos).trim()}".`);
+          }
+          pos = tokenRegex.lastIndex;
+          const [, lparen, rparen, or, and, phrase, regexBody, regexFlags, minus, word] = m;
+          if (lparen) tokens.push({ kind: 'lparen' });
+          else if (rparen) tokens.push({ kind: 'rparen' });
+          else if (or) tokens.push({ kind: 'or' });
+          else if (and) tokens.push({ kind: 'and' });
+          else if (minus) tokens.push({ kind: 'not' });
+          else if (phrase !== undefined) tokens.push({ kind: 'term', test: phraseTest(phrase) });
+          else if (regexBody !== undefined) {
+              let regex: RegExp;
+              try {
+                  regex = new RegExp(regexBody, regexFlags.replace(/[gy]/g, '')); // Stateless: lastIndex must not carry over between blocks
+              } catch (e) {
+                  throw new Error(`Biểu thức chính quy không hợp lệ: /${regexBody}/`);
+              }
+              tokens.push({ kind: 'term', test: ctx => regex.test(ctx.content) });
+          } else if (word === 'OR') tokens.push({ kind: 'or' });
+          else if (word === 'AND') tokens.push({ kind: 'and' });
+          else if (word === 'NOT') tokens.push({ kind: 'not' });
+          else {
+              const predicate = /^([a-z]+):(.+)$/i.exec(word);
+              const test = predicate ? predicateTest(predicate[1].toLowerCase(), predicate[2]) : null;
+              tokens.push({ kind: 'term', test: test || phraseTest(word) });
+          }
       }
+
+      // Recursive descent: or := and (OR and)* ; and := not (AND? not)* ; not := NOT not | primary
+      let index = 0;
+      const peek = () => tokens[index];
+      const parseOr = (): ((ctx: FilterContext) => boolean) => {
+          const parts = [parseAnd()];
+          while (peek()?.kind === 'or') {
+              index++;
+              parts.push(parseAnd());
+          }
+          return ctx => parts.some(p => p(ctx));
+      };
+      const parseAnd = (): ((ctx: FilterContext) => boolean) => {
+          const parts = [parseNot()];
+          while (peek() && (peek().kind === 'and' || peek().kind === 'not' || peek().kind === 'term' || peek().kind === 'lparen')) {
+              if (peek().kind === 'and') index++;
+              parts.push(parseNot());
+          }
+          return ctx => parts.every(p => p(ctx));
+      };
+      const parseNot = (): ((ctx: FilterContext) => boolean) => {
+          if (peek()?.kind === 'not') {
+              index++;
+              const inner = parseNot();
+              return ctx => !inner(ctx);
+          }
+          const token = tokens[index++];
+          if (!token) throw new Error("Cú pháp lọc không hợp lệ: biểu thức bị thiếu vế.");
+          if (token.kind === 'term') return token.test!;
+          if (token.kind === 'lparen') {
+              const inner = parseOr();
+              if (tokens[index++]?.kind !== 'rparen') throw new Error("Cú pháp lọc không hợp lệ: thiếu dấu ')'.");
+              return inner;
+          }
+          throw new Error("Cú pháp lọc không hợp lệ: toán tử đặt sai vị trí.");
+      };
+
+      if (tokens.length === 0) return () => true;
+      const matcher = parseOr();
+      if (index < tokens.length) throw new Error("Cú pháp lọc không hợp lệ: thừa dấu ')'.");
+      return matcher;
   };
 
   const handleExecuteFilter = async () => {
@@ -541,44 +3502,36 @@ ${shuffledTL.join('\n')}
     setError(null);
     
     try {
-        let contentToProcess = "";
-
         // 1. Get Content from Files or Current Editor
-        if (filterFiles && filterFiles.length > 0) {
-            for (let i = 0; i < filterFiles.length; i++) {
-                contentToProcess += await filterFiles[i].text() + "\n";
-            }
-        } else {
-            // Fallback to current content if no files selected
-            if (contentEditableRef.current) {
-                // If in LaTeX mode, innerText is usually the code
-                contentToProcess = contentEditableRef.current.innerText;
-            } else {
-                contentToProcess = resultContent;
-            }
-        }
-
-        if (!contentToProcess.trim()) {
-            throw new Error("Không có dữ liệu để lọc. Vui lòng chọn file hoặc đảm bảo khung soạn thảo có nội dung.");
-        }
+        const contentToProcess = await readFilterSource();
 
         // 2. Filter Logic
         let results: string[] = [];
-        const keywords = filterKeywords.split(',').map(k => k.trim().toLowerCase()).filter(k => k);
+        const matchesQuery = compileFilterQuery(filterKeywords);
+        setFigureGallery([]);
 
-        if (filterType === 'tikz') {
+        if (filterType === 'figures') {
+             // Figures of the questions matching the query, exported as a standalone document
+             const figures: ExtractedFigure[] = [];
+             parseLatexQuestions(contentToProcess).forEach((q, idx) => {
+                 if (!matchesQuery({ content: q.fullContent, type: q.type })) return;
+                 extractFiguresFromQuestion(q.fullContent).forEach(f => {
+                     figures.push({ questionNumber: idx + 1, questionId: q.id, kind: f.kind, code: f.code });
+                 });
+             });
+             setFigureGallery(figures);
+             setResultContent(figures.length > 0 ? buildFigureDocument(figures) : "");
+             setLoadingStatus("");
+             setProgress(100);
+             if (figures.length === 0) alert("Không tìm thấy hình vẽ nào phù hợp.");
+             return;
+        } else if (filterType === 'tikz') {
              // Filter TikZ environments
              const tikzRegex = /\\begin{tikzpicture}([\s\S]*?)\\end{tikzpicture}/g;
              let match;
              while ((match = tikzRegex.exec(contentToProcess)) !== null) {
                  const block = match[0];
-                 // Check keywords if present
-                 if (keywords.length > 0) {
-                     const lowerBlock = block.toLowerCase();
-                     if (keywords.some(k => lowerBlock.includes(k))) {
-                         results.push(block);
-                     }
-                 } else {
+                 if (matchesQuery({ content: block })) {
                      results.push(block);
                  }
              }
@@ -593,13 +3546,8 @@ ${shuffledTL.join('\n')}
              else if (filterType === 'tl') filteredByType = questions.filter(q => q.type === 'TL');
              // 'all' keeps everything
              
-             // Filter by Keywords
-             if (keywords.length > 0) {
-                 filteredByType = filteredByType.filter(q => {
-                     const lowerContent = q.fullContent.toLowerCase();
-                     return keywords.some(k => lowerContent.includes(k));
-                 });
-             }
+             // Filter by query
+             filteredByType = filteredByType.filter(q => matchesQuery({ content: q.fullContent, type: q.type }));
 
              results = filteredByType.map(q => q.fullContent);
         }
@@ -619,9 +3567,160 @@ ${shuffledTL.join('\n')}
     }
   };
 
+  // --- IMAGE PREPROCESSING ---
+
+  const luminanceAt = (data: Uint8ClampedArray, i: number) => 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+
+  // Grayscale, contrast stretch around mid-grey and black/white threshold, in place
+  const applyToneAdjustments = (image: ImageData, settings: ImagePreprocessSettings) => {
+      const { data } = image;
+      const factor = 1 + settings.contrast / 100;
+      const adjust = (v: number) => Math.max(0, Math.min(255, (v - 128) * factor + 128));
+      for (let i = 0; i < data.length; i += 4) {
+          if (settings.grayscale || settings.threshold > 0) {
+              let v = adjust(luminanceAt(data, i));
+              if (settings.threshold > 0) v = v < settings.threshold ? 0 : 255;
+              data[i] = data[i + 1] = data[i + 2] = v;
+          } else if (settings.contrast > 0) {
+              data[i] = adjust(data[i]);
+              data[i + 1] = adjust(data[i + 1]);
+              data[i + 2] = adjust(data[i + 2]);
+          }
+      }
+  };
+
+  // Projection profile: text lines give the sharpest row histogram when the page is level.
+  // Returns the page tilt in degrees (positive = clockwise), searched within ±5°.
+  const estimateSkewAngle = (image: ImageData) => {
+      const { data, width, height } = image;
+      const step = Math.max(1, Math.round(width / 600));
+      const points: number[] = [];
+      for (let y = 0; y < height; y += step) {
+          for (let x = 0; x < width; x += step) {
+              if (luminanceAt(data, (y * width + x) * 4) < 128) points.push(x, y);
+          }
+      }
+      if (points.length < 200) return 0;
+
+      let bestAngle = 0;
+      let bestScore = -1;
+      for (let angle = -5; angle <= 5; angle += 0.25) {
+          const rad = angle * Math.PI / 180;
+          const sin = Math.sin(rad);
+          const cos = Math.cos(rad);
+          const bins = new Map<number, number>();
+          for (let i = 0; i < points.length; i += 2) {
+              const row = Math.round((points[i + 1] * cos - points[i] * sin) / step);
+              bins.set(row, (bins.get(row) || 0) + 1);
+          }
+          let score = 0;
+          bins.forEach(count => { score += count * count; });
+          if (score > bestScore) {
+              bestScore = score;
+              bestAngle = angle;
+          }
+      }
+      return bestAngle;
+  };
+
+  // Content box after dropping dark scanner/photo edges; 1% padding keeps glyphs off the edge
+  const findContentBounds = (image: ImageData) => {
+      const { data, width, height } = image;
+      const isDark = (x: number, y: number) => luminanceAt(data, (y * width + x) * 4) < 160;
+      const darkRatio = (length: number, at: (k: number) => boolean) => {
+          let dark = 0;
+          for (let k = 0; k < length; k++) if (at(k)) dark++;
+          return dark / length;
+      };
+
+      let top = 0, bottom = height - 1, left = 0, right = width - 1;
+      while (top < bottom && darkRatio(width, x => isDark(x, top)) > 0.5) top++;
+      while (bottom > top && darkRatio(width, x => isDark(x, bottom)) > 0.5) bottom--;
+      while (left < right && darkRatio(bottom - top + 1, k => isDark(left, top + k)) > 0.5) left++;
+      while (right > left && darkRatio(bottom - top + 1, k => isDark(right, top + k)) > 0.5) right--;
+
+      let minX = right, minY = bottom, maxX = left, maxY = top;
+      for (let y = top; y <= bottom; y++) {
+          for (let x = left; x <= right; x++) {
+              if (!isDark(x, y)) continue;
+              if (x < minX) minX = x;
+              if (x > maxX) maxX = x;
+              if (y < minY) minY = y;
+              if (y > maxY) maxY = y;
+          }
+      }
+      if (maxX <= minX || maxY <= minY) return { x: 0, y: 0, width, height };
+      const pad = Math.round(Math.max(width, height) * 0.01);
+      const x = Math.max(0, minX - pad);
+      const y = Math.max(0, minY - pad);
+      return { x, y, width: Math.min(width, maxX + pad + 1) - x, height: Math.min(height, maxY + pad + 1) - y };
+  };
+
+  const preprocessCanvas = (source: HTMLCanvasElement, settings: ImagePreprocessSettings) => {
+      let canvas = source;
+      const context = () => canvas.getContext('2d', { willReadFrequently: true })!;
+      let image = context().getImageData(0, 0, canvas.width, canvas.height);
+
+      if (settings.grayscale || settings.contrast > 0 || settings.threshold > 0) {
+          applyToneAdjustments(image, settings);
+          context().putImageData(image, 0, 0);
+      }
+
+      if (settings.deskew) {
+          const angle = estimateSkewAngle(image);
+          if (angle !== 0) {
+              const rotated = document.createElement('canvas');
+              rotated.width = canvas.width;
+              rotated.height = canvas.height;
+              const ctx = rotated.getContext('2d', { willReadFrequently: true })!;
+              ctx.fillStyle = '#ffffff';
+              ctx.fillRect(0, 0, rotated.width, rotated.height);
+              ctx.translate(rotated.width / 2, rotated.height / 2);
+              ctx.rotate(-angle * Math.PI / 180);
+              ctx.drawImage(canvas, -canvas.width / 2, -canvas.height / 2);
+              canvas = rotated;
+              image = context().getImageData(0, 0, canvas.width, canvas.height);
+          }
+      }
+
+      if (settings.cropBorder) {
+          const box = findContentBounds(image);
+          if (box.width < canvas.width || box.height < canvas.height) {
+              const cropped = document.createElement('canvas');
+              cropped.width = box.width;
+              cropped.height = box.height;
+              cropped.getContext('2d')!.drawImage(canvas, box.x, box.y, box.width, box.height, 0, 0, box.width, box.height);
+              canvas = cropped;
+          }
+      }
+      return canvas;
+  };
+
+  const canvasToPart = (canvas: HTMLCanvasElement, settings: ImagePreprocessSettings) => {
+      const mimeType = `image/${settings.format}`;
+      // Return base64 string without the prefix for Gemini
+      const data = canvas.toDataURL(mimeType, settings.quality).split(',')[1];
+      return { inlineData: { data, mimeType } };
+  };
+
+  const hasImageCleanup = (settings: ImagePreprocessSettings) =>
+      settings.grayscale || settings.contrast > 0 || settings.threshold > 0 || settings.deskew || settings.cropBorder;
+
+  // Uploaded/pasted photos go through the same cleanup; untouched when no cleanup step is enabled
+  const imageFileToPart = async (file: File) => {
+      if (!hasImageCleanup(imagePreprocess)) return fileToGenericPart(file);
+      const bitmap = await createImageBitmap(file);
+      const canvas = document.createElement('canvas');
+      canvas.width = bitmap.width;
+      canvas.height = bitmap.height;
+      canvas.getContext('2d')!.drawImage(bitmap, 0, 0);
+      bitmap.close();
+      return canvasToPart(preprocessCanvas(canvas, imagePreprocess), imagePreprocess);
+  };
+
   // --- PDF PROCESSING LOGIC ---
 
-  const renderPdfPageToImage = async (pdfDoc: any, pageNum: number, scale = 2.0): Promise<string> => {
+  const renderPdfPageToCanvas = async (pdfDoc: any, pageNum: number, scale: number) => {
     const page = await pdfDoc.getPage(pageNum);
     const viewport = page.getViewport({ scale });
     const canvas = document.createElement('canvas');
@@ -630,12 +3729,23 @@ ${shuffledTL.join('\n')}
     canvas.width = viewport.width;
 
     await page.render({ canvasContext: context, viewport: viewport }).promise;
+    return canvas;
+  };
+
+  const renderPdfPageToImage = async (pdfDoc: any, pageNum: number, scale = 2.0): Promise<string> => {
+    const canvas = await renderPdfPageToCanvas(pdfDoc, pageNum, scale);
     // Return base64 string without the prefix for Gemini
     const dataUrl = canvas.toDataURL('image/jpeg', 0.8);
     return dataUrl.split(',')[1];
   };
 
-  const processWithAI = async (parts: any[], mode: 'convert' | 'solve', currentTab: TabType, isFirstBatch: boolean = true) => {
+  // Page image for the model, rendered at the configured DPI and cleaned up
+  const renderPdfPageToPart = async (pdfDoc: any, pageNum: number) => {
+    const canvas = await renderPdfPageToCanvas(pdfDoc, pageNum, imagePreprocess.dpi / 72);
+    return canvasToPart(preprocessCanvas(canvas, imagePreprocess), imagePreprocess);
+  };
+
+  const processWithAI = async (parts: any[], mode: 'convert' | 'solve', currentTab: TabType, isFirstBatch: boolean = true, abortSignal?: AbortSignal) => {
       const ai = new GoogleGenAI({ apiKey: getApiKey() });
       
       // Select model based on mode: Flash for speed (convert), Pro for reasoning (solve)
@@ -778,92 +3888,475 @@ oly]{}
       const response = await ai.models.generateContent({
         model: modelId,
         contents: { parts: requestParts },
-        config: { temperature: mode === 'convert' ? 0.1 : 0.4 }
+        config: { temperature: mode === 'convert' ? 0.1 : 0.4, abortSignal }
       });
 
       let text = response.text || "";
       return text.replace(/```html|```latex|```tex|```/g, "").trim();
   };
 
-  const processPdfInBatches = async (file: File, mode: 'convert' | 'solve') => {
-    try {
-      if (!window.pdfjsLib) throw new Error("Thư viện PDF chưa tải xong. Vui lòng đợi 3 giây rồi thử lại.");
-      
-      const arrayBuffer = await file.arrayBuffer();
-      const pdfDoc = await window.pdfjsLib.getDocument(arrayBuffer).promise;
-      const totalPages = pdfDoc.numPages;
-      const BATCH_SIZE = 6; 
-      const MAX_RETRIES = 5;
-      
-      let finalResult = "";
+  // Second pass for answer keys printed as a separate table: transcribe it in a fixed plain format
+  const extractAnswerTableWithAI = async (parts: any[]) => {
+      const ai = new GoogleGenAI({ apiKey: getApiKey() });
+      const instruction = `
+Tìm BẢNG ĐÁP ÁN trong các trang đầu vào và chép lại CHÍNH XÁC theo định dạng văn bản sau, không thêm gì khác:
+PHẦN I
+1.A 2.C 3.B ...
+PHẦN II
+1. ĐSĐS
+2. SSĐĐ
+PHẦN III
+1. 2,5
+2. -3
+QUY TẮC:
+1. Phần Đúng/Sai ghi Đ hoặc S lần lượt cho các ý a), b), c), d).
+2. Nếu đề không chia phần thì bỏ các dòng PHẦN và đánh số liên tục.
+3. TUYỆT ĐỐI KHÔNG GIẢI BÀI. Nếu không có bảng đáp án, trả về: KHÔNG CÓ
+`;
+      const response = await ai.models.generateContent({
+        model: "gemini-2.5-flash",
+        contents: { parts: [...parts, { text: instruction }] },
+        config: { temperature: 0.1 }
+      });
+      return (response.text || "").replace(/```\w*|```/g, "").trim();
+  };
+
+  // "3-8, 12, 10" -> [3..8, 12, 10]; keeps the typed order, drops out-of-range pages and repeats
+  const parsePageRanges = (text: string, totalPages: number) => {
+      const pages: number[] = [];
+      text.split(/[,;\s]+/).forEach(token => {
+          const match = /^(\d+)(?:-(\d+))?$/.exec(token.trim());
+          if (!match) return;
+          const from = Number(match[1]);
+          const to = match[2] ? Number(match[2]) : from;
+          const step = from <= to ? 1 : -1;
+          for (let p = from; step > 0 ? p <= to : p >= to; p += step) {
+              if (p >= 1 && p <= totalPages && !pages.includes(p)) pages.push(p);
+          }
+      });
+      return pages;
+  };
+
+  // [3,4,5,8] -> "3-5, 8"
+  const formatPageList = (pages: number[]) => {
+      const parts: string[] = [];
+      for (let i = 0; i < pages.length; i++) {
+          let j = i;
+          while (j + 1 < pages.length && pages[j + 1] === pages[j] + 1) j++;
+          parts.push(j > i ? `${pages[i]}-${pages[j]}` : `${pages[i]}`);
+          i = j;
+      }
+      return parts.join(', ');
+  };
+
+  // Short hash of the pages to convert, in order; every page in its original order is 'all'
+  // whether or not the thumbnails have loaded, so both cases share checkpoints
+  const pageSelectionHash = async (selection: PdfPageSelection[]) => {
+      const order = selection.filter(p => p.selected && !p.answerOnly).map(p => p.page);
+      const isAll = order.length === selection.length && order.every((page, i) => page === i + 1);
+      return (await sha256Hex(isAll ? 'all' : order.join(','))).slice(0, 16);
+  };
+
+  const handleApplyPageRange = () => {
+      const chosen = parsePageRanges(pageRangeText, pdfPages.length);
+      if (chosen.length === 0) return setError("Khoảng trang không hợp lệ. Ví dụ: 3-8, 12");
+      setError(null);
+      setPdfPages(prev => [
+          ...chosen.map(page => ({ ...prev.find(p => p.page === page)!, selected: true })),
+          ...prev.filter(p => !chosen.includes(p.page)).sort((a, b) => a.page - b.page).map(p => ({ ...p, selected: false }))
+      ]);
+  };
+
+  const updatePdfPage = (page: number, changes: Partial<PdfPageSelection>) => {
+      setPdfPages(prev => prev.map(p => p.page === page ? { ...p, ...changes } : p));
+  };
+
+  const handleMovePdfPage = (index: number, delta: number) => {
+      setPdfPages(prev => {
+          const target = index + delta;
+          if (target < 0 || target >= prev.length) return prev;
+          const next = [...prev];
+          [next[index], next[target]] = [next[target], next[index]];
+          return next;
+      });
+  };
+
+  // Sliding one-minute window shared by all workers of a run; resolves false when the run is stopped
+  const createRateLimiter = (requestsPerMinute: number) => {
+      const sentAt: number[] = [];
+      return async () => {
+          while (!abortRef.current) {
+              const now = Date.now();
+              while (sentAt.length && now - sentAt[0] >= 60000) sentAt.shift();
+              if (sentAt.length < requestsPerMinute) {
+                  sentAt.push(now);
+                  return true;
+              }
+              await wait(Math.min(1000, 60000 - (now - sentAt[0])));
+          }
+          return false;
+      };
+  };
+
+  // resume: skip batches already checkpointed as done; 'failed' re-runs only the failed ones.
+  // report receives the partial result (defaults to the editor); acquireSlot lets a queue share one rate limit;
+  // pages overrides the thumbnail-strip selection (queued files); concurrency, the batch pool size
+  // (a parallel queue gives each file its share). Returns the assembled result.
+  const processPdfInBatches = async (pdfFile: File, mode: 'convert' | 'solve', options: {
+      resume?: 'unfinished' | 'failed',
+      report?: (content: string, percent: number) => void,
+      acquireSlot?: () => Promise<boolean>,
+      pages?: PdfPageSelection[],
+      concurrency?: number
+  } = {}) => {
+    const { resume } = options;
+    const report = options.report || ((content: string, percent: number) => {
+        setResultContent(content);
+        setProgress(percent);
+    });
+    try {
+      if (!window.pdfjsLib) throw new Error("Thư viện PDF chưa tải xong. Vui lòng đợi 3 giây rồi thử lại.");
+      
+      const arrayBuffer = await pdfFile.arrayBuffer();
+      const pdfDoc = await window.pdfjsLib.getDocument(arrayBuffer).promise;
+      const totalPages = pdfDoc.numPages;
+      const BATCH_SIZE = 6; 
+      const MAX_RETRIES = 5;
+
+      // Selected pages in the order picked on the thumbnail strip (all pages when thumbnails are not ready)
+      const selection = options.pages || (pdfFile === file ? pdfPages : []);
+      const pageOrder = selection.length === totalPages
+          ? selection.filter(p => p.selected && !p.answerOnly).map(p => p.page)
+          : Array.from({ length: totalPages }, (_, i) => i + 1);
+      if (pageOrder.length === 0) throw new Error("Chưa chọn trang nào để chuyển đổi.");
+
+      const batches: { pages: number[], label: string }[] = [];
+      for (let i = 0; i < pageOrder.length; i += BATCH_SIZE) {
+          const pages = pageOrder.slice(i, i + BATCH_SIZE);
+          batches.push({ pages, label: formatPageList(pages) });
+      }
+      const results: (string | null)[] = batches.map(() => null);
+      const acquireSlot = options.acquireSlot || createRateLimiter(batchPool.requestsPerMinute);
+      const signal = abortControllerRef.current?.signal;
+
+      // Checkpoints are keyed by file content, mode, tab and page selection so a renamed copy still
+      // resumes while a changed selection starts a new job
+      const tab = activeTab as TabType;
+      const fileHash = await sha256Hex(arrayBuffer);
+      const job = `${fileHash}|${mode}|${tab}|${await pageSelectionHash(selection.length === totalPages ? selection : [])}`;
+      const saveCheckpoint = (index: number, status: BatchCheckpoint['status'], result: string) => {
+          const { pages } = batches[index];
+          putCheckpoint({ id: `${job}|${pages.join(',')}`, job, fileHash, mode, tab, pages, totalBatches: batches.length, status, result, updatedAt: Date.now() })
+              .catch(e => console.warn("Could not save checkpoint", e));
+      };
+
+      // Storage is best-effort: without IndexedDB the run just has nothing to resume from
+      const pending: number[] = [];
+      if (resume) {
+          const saved = (await getFileCheckpoints(fileHash).catch(e => {
+              console.warn("Could not read checkpoints", e);
+              return [] as BatchCheckpoint[];
+          })).filter(c => c.job === job);
+          batches.forEach((batch, index) => {
+              const checkpoint = saved.find(c => c.pages.join(',') === batch.pages.join(','));
+              if (checkpoint?.status === 'done' || (resume === 'failed' && checkpoint?.status !== 'failed')) {
+                  results[index] = checkpoint ? checkpoint.result : (activeTab === 'word'
+                      ? `<br/><p style="color:red;">[CHƯA XỬ LÝ trang ${batch.label}]</p>`
+                      : `% [CHƯA XỬ LÝ trang ${batch.label}]`);
+              } else {
+                  pending.push(index);
+              }
+          });
+      } else {
+          await deleteJobCheckpoints(fileHash, job).catch(e => console.warn("Could not clear checkpoints", e));
+          batches.forEach((_, index) => pending.push(index));
+      }
+      let nextBatch = 0;
+      let doneCount = batches.length - pending.length;
+
+      // Batches finish out of order; show the finished ones in page order
+      const assemble = () => {
+          const separator = activeTab === 'latex' ? "\n\n% --- Next Batch ---\n\n" : "<br/><br/>";
+          return results.filter((r): r is string => r !== null).map(r => r + separator).join('');
+      };
+      const publish = () => report(assemble(), Math.round((doneCount / batches.length) * 100));
+
+      const runBatch = async (index: number) => {
+          const { pages, label } = batches[index];
+          const isFirstBatch = index === 0;
+          let retryCount = 0;
+
+          while (!abortRef.current && retryCount < MAX_RETRIES) {
+              try {
+                  setLoadingStatus(`Đang xử lý trang ${label} / ${totalPages}... ${retryCount > 0 ? `(Thử lại lần ${retryCount})` : ''}`);
+
+                  const imageParts = [];
+                  for (const p of pages) {
+                      imageParts.push(await renderPdfPageToPart(pdfDoc, p));
+                  }
+
+                  if (!await acquireSlot()) return;
+                  let batchResult = await processWithAI(imageParts, mode, activeTab as TabType, isFirstBatch, signal);
+                  if (abortRef.current) return;
+
+                  if (activeTab === 'latex' && isFirstBatch) {
+                      batchResult = batchResult.replace(/\\end{document}/g, "").trim();
+                  }
+                  results[index] = batchResult;
+                  saveCheckpoint(index, 'done', batchResult);
+                  return;
+              } catch (err) {
+                  if (abortRef.current) return;
+                  console.warn(`Batch ${label} failed:`, err);
+                  retryCount++;
+                  if (retryCount < MAX_RETRIES) {
+                      setLoadingStatus(`Lỗi kết nối ở trang ${label}. Thử lại sau 5s...`);
+                      await wait(5000);
+                  }
+              }
+          }
+
+          if (!abortRef.current) {
+              results[index] = activeTab === 'word'
+                  ? `<br/><p style="color:red;">[LỖI trang ${label}]</p>`
+                  : `% [LỖI trang ${label}]`;
+              saveCheckpoint(index, 'failed', results[index]!);
+          }
+      };
+
+      const worker = async () => {
+          while (!abortRef.current && nextBatch < pending.length) {
+              const index = pending[nextBatch++];
+              await runBatch(index);
+              if (abortRef.current) break; // A stopped batch is not finished
+              doneCount++;
+              publish();
+          }
+      };
+
+      publish();
+      await Promise.all(Array.from({ length: Math.min(options.concurrency || batchPool.concurrency, pending.length) }, worker));
+
+      let content = assemble();
+      if (abortRef.current) {
+          setLoadingStatus("Đã dừng bởi người dùng.");
+      } else if (activeTab === 'latex') {
+          content += "\n\\end{document}";
+          report(content, 100);
+      }
+      return content;
+
+    } catch (e: any) {
+      throw new Error(`Lỗi xử lý PDF: ${e.message}`);
+    }
+  };
+
+  const findResumeOffer = async (target: File, tab: TabType, selection: PdfPageSelection[]): Promise<ResumeOffer | null> => {
+      if (target.type !== 'application/pdf' || (tab !== 'word' && tab !== 'latex')) return null;
+      const fileHash = await sha256Hex(await target.arrayBuffer());
+      const selectionHash = await pageSelectionHash(selection);
+      const saved = (await getFileCheckpoints(fileHash)).filter(c => c.tab === tab && c.job.endsWith(`|${selectionHash}`));
+      if (saved.length === 0) return null;
+      const latest = saved.reduce((a, b) => b.updatedAt > a.updatedAt ? b : a);
+      const checkpoints = saved.filter(c => c.job === latest.job);
+      return {
+          fileHash,
+          job: latest.job,
+          mode: latest.mode,
+          totalBatches: latest.totalBatches,
+          done: checkpoints.filter(c => c.status === 'done').length,
+          failed: checkpoints.filter(c => c.status === 'failed').length
+      };
+  };
+
+  const handleDiscardResume = async () => {
+      if (!resumeOffer) return;
+      try {
+          await deleteJobCheckpoints(resumeOffer.fileHash, resumeOffer.job);
+          setResumeOffer(null);
+      } catch (err: any) {
+          setError(err.message);
+      }
+  };
+
+  // --- CONVERSION QUEUE ---
+
+  const enqueueFiles = (files: File[], pages?: PdfPageSelection[]) => {
+      const stamp = Date.now();
+      setQueue(prev => [...prev, ...files.map((f, i) => ({
+          id: `${stamp}-${i}-${generateSeed()}`,
+          file: f,
+          name: f.name || `Pasted_Image_${stamp}_${i + 1}.png`,
+          status: 'pending' as const,
+          progress: 0,
+          result: "",
+          pages
+      }))]);
+  };
+
+  const updateQueueItem = (id: string, changes: Partial<QueueItem>) => {
+      setQueue(prev => prev.map(item => item.id === id ? { ...item, ...changes } : item));
+  };
+
+  const handleMoveQueueItem = (index: number, delta: number) => {
+      setQueue(prev => {
+          const target = index + delta;
+          if (target < 0 || target >= prev.length) return prev;
+          const next = [...prev];
+          [next[index], next[target]] = [next[target], next[index]];
+          return next;
+      });
+  };
+
+  // Moves the single selected file (or pasted text) into the queue so more files can be added after it.
+  // A PDF keeps its page selection, order and answer-key marks.
+  const handleAddCurrentFileToQueue = () => {
+      if (file) {
+          enqueueFiles([new File([file], fileName || file.name, { type: file.type })], file.type === 'application/pdf' && pdfPages.length > 0 ? pdfPages : undefined);
+      } else if (pastedText) {
+          enqueueFiles([new File([pastedText], `Pasted_Text_${Date.now()}.txt`, { type: 'text/plain' })]);
+      } else {
+          return;
+      }
+      setFile(null);
+      setFileName("");
+      setPastedText("");
+  };
+
+  // LaTeX: one preamble (from the first file that has one) and each file's body in queue order;
+  // Word: the HTML bodies separated by page breaks
+  const mergeQueueResults = (parts: { name: string, result: string }[]) => {
+      if (activeTab !== 'latex') {
+          return parts.map(p => `<!-- ${escapeHtml(p.name.replace(/-{2,}/g, '-'))} -->\n${p.result}`).join('\n<br style="page-break-before:always"/>\n');
+      }
+      const BEGIN = '\\begin{document}';
+      const END = '\\end{document}';
+      const withPreamble = parts.find(p => p.result.includes(BEGIN));
+      const bodies = parts.map(p => {
+          const begin = p.result.indexOf(BEGIN);
+          const end = p.result.lastIndexOf(END);
+          const body = p.result.slice(begin >= 0 ? begin + BEGIN.length : 0, end >= 0 ? end : undefined).trim();
+          return `% ===== ${p.name} =====\n${body}`;
+      });
+      if (!withPreamble) return bodies.join('\n\n');
+      const preamble = withPreamble.result.slice(0, withPreamble.result.indexOf(BEGIN)).trim();
+      return `${preamble}\n${BEGIN}\n${bodies.join('\n\n')}\n${END}`;
+  };
+
+  const queueOutputName = (item: QueueItem) => `Converted_${item.name.replace(/\.[^.]+$/, '') || 'Document'}${activeTab === 'word' ? '.docx' : '.tex'}`;
+
+  const queueOutputBlob = async (item: QueueItem) => activeTab === 'word'
+      ? htmlToDocx(item.result)
+      : new Blob([item.result], { type: 'text/plain' });
+
+  const handleDownloadQueueItem = async (item: QueueItem) => {
+      try {
+          downloadTextFile(await queueOutputBlob(item), queueOutputName(item), activeTab === 'word' ? DOCX_MIME : 'text/plain');
+      } catch (err: any) {
+          setError(`Lỗi tạo file: ${err.message}`);
+      }
+  };
+
+  const handleDownloadQueueZip = async () => {
+      const done = queue.filter(item => item.status === 'done');
+      if (done.length === 0) return;
+      try {
+          const files = await Promise.all(done.map(async item => ({
+              name: queueOutputName(item),
+              data: new Uint8Array(await (await queueOutputBlob(item)).arrayBuffer())
+          })));
+          downloadTextFile(await buildZip(files, 'application/zip'), `Converted_${done.length}_files.zip`, 'application/zip');
+      } catch (err: any) {
+          setError(`Lỗi tạo file nén: ${err.message}`);
+      }
+  };
 
-      for (let i = 1; i <= totalPages; i += BATCH_SIZE) {
-        if (abortRef.current) {
-            setLoadingStatus("Đã dừng bởi người dùng.");
-            break;
-        }
+  // Runs every unfinished item; parallel mode uses the batch pool size for files in flight,
+  // all of them sharing one requests-per-minute limiter and one concurrency budget. Stopped items go back to pending.
+  // PDFs start over unless resume is asked for, which reuses their checkpoints.
+  const executeQueue = async (mode: 'convert' | 'solve', resume?: 'unfinished') => {
+    const order = queue.map(item => item.id);
+    const names = new Map(queue.map(item => [item.id, item.name]));
+    const results = new Map(queue.filter(item => item.status === 'done').map(item => [item.id, item.result]));
+    const items = queue.filter(item => item.status !== 'done');
+    if (items.length === 0) return setError("Tất cả file trong hàng đợi đã chuyển đổi xong.");
 
-        const startPage = i;
-        const endPage = Math.min(i + BATCH_SIZE - 1, totalPages);
-        const isFirstBatch = i === 1;
-        
-        setProgress(Math.round(((i - 1) / totalPages) * 100));
+    setIsLoading(true);
+    abortRef.current = false;
+    abortControllerRef.current = new AbortController();
+    setError(null);
+    setResultContent("");
+    setLintReport(null);
+    setAnswerTableReport(null);
+    setIsPreviewMode(false);
+    setProgress(0);
+    setQueueRunMode(mode);
+    setLoadingStatus(`Đang chạy hàng đợi ${items.length} file...`);
 
-        let success = false;
-        let retryCount = 0;
+    const tab = activeTab as TabType;
+    const acquireSlot = createRateLimiter(batchPool.requestsPerMinute);
+    // One concurrency budget for the whole run: parallel files split it between them
+    const filesInFlight = queueMode === 'parallel' ? Math.min(batchPool.concurrency, items.length) : 1;
+    const batchesPerFile = Math.max(1, Math.floor(batchPool.concurrency / filesInFlight));
+    let nextItem = 0;
+    let finished = 0;
 
-        while (!success && !abortRef.current && retryCount < MAX_RETRIES) {
-            try {
-                setLoadingStatus(`Đang xử lý trang ${startPage} - ${endPage} / ${totalPages}... ${retryCount > 0 ? `(Thử lại lần ${retryCount})` : ''}`);
-                
-                const imageParts = [];
-                for (let p = startPage; p <= endPage; p++) {
-                    const base64Image = await renderPdfPageToImage(pdfDoc, p);
-                    imageParts.push({ inlineData: { data: base64Image, mimeType: 'image/jpeg' } });
-                }
+    const publish = () => {
+        const doneIds = order.filter(id => results.has(id));
+        if (queueOutput === 'merged') {
+            setResultContent(mergeQueueResults(doneIds.map(id => ({ name: names.get(id)!, result: results.get(id)! }))));
+        } else if (doneIds.length > 0) {
+            setResultContent(results.get(doneIds[0])!);
+        }
+        setProgress(Math.round((finished / items.length) * 100));
+    };
 
-                let batchResult = await processWithAI(imageParts, mode, activeTab as TabType, isFirstBatch);
-                
-                if (abortRef.current) break;
-                
-                if (activeTab === 'latex') {
-                    if (isFirstBatch) {
-                        batchResult = batchResult.replace(/\\end{document}/g, "").trim();
-                    }
-                    finalResult += batchResult + "\n\n% --- Next Batch ---\n\n";
-                    setResultContent(finalResult); 
-                } else {
-                     finalResult += batchResult + "<br/><br/>";
-                     setResultContent(finalResult);
-                }
-                
-                success = true; 
-            } catch (err) {
-                console.warn(`Batch ${startPage}-${endPage} failed:`, err);
-                retryCount++;
-                if (retryCount >= MAX_RETRIES) {
-                    const errorMsg = activeTab === 'word' 
-                        ? `<br/><p style="color:red;">[LỖI trang ${startPage}-${endPage}]</p><br/>`
-                        : `\n% [LỖI trang ${startPage}-${endPage}]\n`;
-                    finalResult += errorMsg;
-                    setResultContent(finalResult);
-                    success = true; 
-                } else {
-                    if (abortRef.current) break;
-                    setLoadingStatus(`Lỗi kết nối. Thử lại sau 5s...`);
-                    await wait(5000); 
-                }
+    const runItem = async (item: QueueItem) => {
+        updateQueueItem(item.id, { status: 'running', progress: 0, error: undefined });
+        try {
+            let result: string;
+            if (item.file.type === 'application/pdf') {
+                result = await processPdfInBatches(item.file, mode, {
+                    resume,
+                    acquireSlot,
+                    pages: item.pages,
+                    concurrency: batchesPerFile,
+                    report: (_, percent) => updateQueueItem(item.id, { progress: percent })
+                });
+            } else {
+                const part = item.file.type === 'text/plain'
+                    ? { text: `Nội dung đầu vào:\n${await item.file.text()}` }
+                    : item.file.type.startsWith('image/') ? await imageFileToPart(item.file) : await fileToGenericPart(item.file);
+                result = await acquireSlot()
+                    ? await processWithAI([part], mode, tab, true, abortControllerRef.current?.signal)
+                    : "";
             }
+            if (abortRef.current) {
+                updateQueueItem(item.id, { status: 'pending', progress: 0 });
+                return;
+            }
+            results.set(item.id, result);
+            updateQueueItem(item.id, { status: 'done', progress: 100, result });
+        } catch (err: any) {
+            updateQueueItem(item.id, abortRef.current ? { status: 'pending', progress: 0 } : { status: 'error', error: err.message });
         }
-      }
+    };
 
-      if (!abortRef.current && activeTab === 'latex') {
-          setResultContent(prev => prev + "\n\\end{document}");
-          setProgress(100);
-      }
+    const worker = async () => {
+        while (!abortRef.current && nextItem < items.length) {
+            await runItem(items[nextItem++]);
+            if (abortRef.current) break; // The stopped item went back to pending
+            finished++;
+            publish();
+        }
+    };
 
-    } catch (e: any) {
-      throw new Error(`Lỗi xử lý PDF: ${e.message}`);
+    publish();
+    try {
+        await Promise.all(Array.from({ length: filesInFlight }, worker));
+    } finally {
+        setIsLoading(false);
+        setLoadingStatus("");
     }
   };
 
@@ -871,15 +4364,28 @@ oly]{}
 
   const handleStop = () => {
     abortRef.current = true;
+    abortControllerRef.current?.abort();
     setLoadingStatus("Đang dừng...");
   };
 
   const handleTabChange = (newTab: TabType) => {
       if (newTab !== activeTab && newTab !== 'settings') {
           setResultContent("");
+          setDuplicateReport(null);
+          setFigureGallery([]);
+          setStatsReport(null);
+          setLintReport(null);
+          setAnswerTableText("");
+          setAnswerTableReport(null);
+          setWordShuffleDocs([]);
+          setAnswerKey([]);
+          setQuestionMap([]);
+          setShuffleWarnings([]);
           setFile(null);
           setFileName("");
           setPastedText("");
+          setQueue([]);
+          setQueueRunMode(null);
           setProgress(0);
           setError(null);
       }
@@ -897,12 +4403,26 @@ oly]{}
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files.length > 0) {
+      // Several files (or any file once a queue exists) go to the conversion queue
+      if ((activeTab === 'word' || activeTab === 'latex') && (e.target.files.length > 1 || queue.length > 0)) {
+          if (file || pastedText) handleAddCurrentFileToQueue();
+          enqueueFiles(Array.from(e.target.files));
+          setPastedText("");
+          setError(null);
+          e.target.value = "";
+          return;
+      }
       const selectedFile = e.target.files[0];
       setFile(selectedFile);
       setFileName(selectedFile.name);
       setPastedText(""); 
       setError(null);
       setResultContent("");
+      setAnswerKey([]);
+      setQuestionMap([]);
+      setShuffleWarnings([]);
+      setLintReport(null);
+      setWordShuffleDocs([]);
       setIsPreviewMode(false);
       setProgress(0);
     }
@@ -912,6 +4432,19 @@ oly]{}
     const items = e.clipboardData?.items;
     if (!items) return;
 
+    const images = Array.from({ length: items.length }, (_, i) => items[i])
+        .filter(item => item.type.indexOf("image") !== -1)
+        .map(item => item.getAsFile())
+        .filter((f): f is File => f !== null);
+    // Several images, or anything pasted once a queue exists, go to the conversion queue
+    const toQueue = (activeTab === 'word' || activeTab === 'latex') && (images.length > 1 || (queue.length > 0 && images.length > 0));
+    if (toQueue) {
+        enqueueFiles(images);
+        setError(null);
+        e.preventDefault();
+        return;
+    }
+
     for (let i = 0; i < items.length; i++) {
       if (items[i].type.indexOf("image") !== -1) {
         const blob = items[i].getAsFile();
@@ -932,7 +4465,10 @@ oly]{}
     const target = e.target as HTMLElement;
     if (target.tagName !== 'INPUT' && target.tagName !== 'TEXTAREA' && !target.isContentEditable) {
         const text = e.clipboardData?.getData("text");
-        if (text) {
+        if (text && queue.length > 0 && (activeTab === 'word' || activeTab === 'latex')) {
+             enqueueFiles([new File([text], `Pasted_Text_${Date.now()}.txt`, { type: 'text/plain' })]);
+             setError(null);
+        } else if (text) {
              setPastedText(text);
              setFile(null);
              setFileName("");
@@ -944,32 +4480,37 @@ oly]{}
     }
   };
 
-  const executeAction = async (mode: 'convert' | 'solve') => {
+  const executeAction = async (mode: 'convert' | 'solve', resume?: 'unfinished' | 'failed') => {
+    if (queue.length > 0) return executeQueue(mode, resume ? 'unfinished' : undefined);
     if (!file && !pastedText) return setError("Vui lòng tải file hoặc dán nội dung.");
     
     setIsLoading(true);
     abortRef.current = false; 
+    abortControllerRef.current = new AbortController();
     setError(null);
     setResultContent(""); 
+    setLintReport(null);
+    setAnswerTableReport(null);
+    setResumeOffer(null);
     setLoadingStatus("Đang khởi tạo...");
     setProgress(0);
     setIsPreviewMode(false);
 
     try {
       if (file && file.type === 'application/pdf') {
-         await processPdfInBatches(file, mode);
+         await processPdfInBatches(file, mode, { resume });
       } 
       else {
           setProgress(50);
           setLoadingStatus("Đang gửi dữ liệu lên AI...");
           const parts: any[] = [];
           if (file) {
-              const filePart = await fileToGenericPart(file);
+              const filePart = file.type.startsWith('image/') ? await imageFileToPart(file) : await fileToGenericPart(file);
               parts.push(filePart);
           } else if (pastedText) {
               parts.push({ text: `Nội dung đầu vào:\n${pastedText}` });
           }
-          const result = await processWithAI(parts, mode, activeTab as TabType);
+          const result = await processWithAI(parts, mode, activeTab as TabType, true, abortControllerRef.current.signal);
           if (!abortRef.current) {
               setResultContent(result);
               setProgress(100);
@@ -981,25 +4522,31 @@ oly]{}
     } finally {
       setIsLoading(false);
       setLoadingStatus("");
+      // Stopped or partly failed runs stay resumable
+      if (file && file.type === 'application/pdf') {
+          findResumeOffer(file, activeTab, pdfPages)
+              .then(offer => setResumeOffer(offer && (offer.done < offer.totalBatches || offer.failed > 0) ? offer : null))
+              .catch(e => console.warn("Could not read checkpoints", e));
+      }
     }
   };
 
-  const handleDownload = () => {
+  const handleDownload = async () => {
     let contentToSave = resultContent;
     if (contentEditableRef.current) {
-        contentToSave = activeTab === 'word' 
+        contentToSave = activeTab === 'word' || wordShuffleDocs.length > 0
             ? contentEditableRef.current.innerHTML 
             : contentEditableRef.current.innerText;
     }
     if (!contentToSave) return;
 
-    if (activeTab === 'word') {
-        const sourceHTML = createWordHtml(contentToSave, "Converted Document");
-        const source = 'data:application/vnd.ms-word;charset=utf-8,' + encodeURIComponent(sourceHTML);
-        const link = document.createElement("a");
-        link.href = source;
-        link.download = `Converted_${fileName.split('.')[0] || 'Document'}.doc`;
-        link.click();
+    if (activeTab === 'word' || wordShuffleDocs.length > 0) {
+        try {
+            const docx = await htmlToDocx(contentToSave);
+            downloadTextFile(docx, `Converted_${fileName.split('.')[0] || 'Document'}.docx`, DOCX_MIME);
+        } catch (err: any) {
+            setError(`Lỗi tạo file Word: ${err.message}`);
+        }
     } else {
         const element = document.createElement("a");
         const file = new Blob([contentToSave], {type: 'text/plain'});
@@ -1028,7 +4575,7 @@ oly]{}
 
     try {
         if (activeTab === 'word') {
-            const blob = new Blob([contentToCopy], { type: "text/html" });
+            const blob = new Blob([replaceMathWithMathml(contentToCopy)], { type: "text/html" });
             const textBlob = new Blob([contentEditableRef.current?.innerText || resultContent], { type: "text/plain" });
             const data = [new ClipboardItem({
                 ["text/html"]: blob,
@@ -1108,7 +4655,7 @@ oly]{}
                 Quay lại
               </button>
           ) : (
-             <div className="grid grid-cols-3 gap-2 mb-6">
+             <div className="grid grid-cols-4 gap-2 mb-6">
                 <button onClick={() => handleTabChange('word')} className={`py-2 px-1 rounded-lg flex flex-col items-center justify-center gap-1 font-bold text-[10px] transition-all ${activeTab === 'word' ? 'bg-white text-blue-900 shadow-lg' : 'bg-blue-800/50 text-blue-200 hover:bg-blue-800 hover:text-white'}`}>
                     <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" /></svg>
                     Word
@@ -1121,16 +4668,116 @@ oly]{}
                    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" /></svg>
                     Trộn Đề
                 </button>
+                <button onClick={() => handleTabChange('bank')} className={`py-2 px-1 rounded-lg flex flex-col items-center justify-center gap-1 font-bold text-[10px] transition-all ${activeTab === 'bank' ? 'bg-white text-blue-900 shadow-lg' : 'bg-blue-800/50 text-blue-200 hover:bg-blue-800 hover:text-white'}`}>
+                   <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 7v10c0 2.21 3.582 4 8 4s8-1.79 8-4V7M4 7c0 2.21 3.582 4 8 4s8-1.79 8-4M4 7c0-2.21 3.582-4 8-4s8 1.79 8 4m0 5c0 2.21-3.582 4-8 4s-8-1.79-8-4" /></svg>
+                    Ngân hàng
+                </button>
              </div>
           )}
 
-          {activeTab !== 'settings' && (
+          {activeTab === 'bank' && (
+              <div className="space-y-6 animate-fade-in-up">
+                  <div>
+                      <div className="flex items-center gap-2 mb-2 text-blue-200 uppercase text-xs font-bold tracking-wider">
+                          <span className="w-5 h-5 rounded-full border border-blue-300 flex items-center justify-center text-[10px]">1</span>
+                          Nhập câu hỏi vào ngân hàng
+                      </div>
+                      <div className="space-y-3">
+                          {renderBankTagInputs()}
+                          <div className="relative border border-dashed border-blue-600 rounded-lg p-4 hover:bg-blue-900/30 transition-colors">
+                              <input 
+                                  type="file"
+                                  multiple
+                                  accept=".tex"
+                                  onChange={handleImportFilesToBank}
+                                  className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+                              />
+                              <div className="text-center text-blue-300 text-xs">
+                                  <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6 mx-auto mb-1 text-blue-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
+                                  </svg>
+                                  <p>Chọn các file .tex để nhập (câu trùng sẽ được bỏ qua)</p>
+                              </div>
+                          </div>
+                          <p className="text-[10px] text-blue-400 italic">* Để trống "Nguồn" sẽ dùng tên file. Mức độ lấy từ ID ex_test hoặc %level:...</p>
+                      </div>
+                  </div>
+
+                  <div>
+                      <div className="flex items-center gap-2 mb-2 text-blue-200 uppercase text-xs font-bold tracking-wider">
+                          <span className="w-5 h-5 rounded-full border border-blue-300 flex items-center justify-center text-[10px]">2</span>
+                          Tìm kiếm
+                      </div>
+                      <div className="space-y-3">
+                          <input 
+                              type="text"
+                              value={bankSearch}
+                              onChange={(e) => setBankSearch(e.target.value)}
+                              placeholder="Nội dung, môn, chương, nguồn..."
+                              className="w-full bg-blue-800/30 border border-blue-600 rounded-lg p-2 text-white text-sm"
+                          />
+                          <div className="grid grid-cols-2 gap-2">
+                              <select 
+                                  value={bankTypeFilter}
+                                  onChange={(e) => setBankTypeFilter(e.target.value as any)}
+                                  className="w-full bg-blue-800 border border-blue-600 rounded-lg p-2 text-white text-xs"
+                              >
+                                  <option value="all">Mọi loại câu</option>
+                                  <option value="TN">Trắc nghiệm 4 đáp án</option>
+                                  <option value="TF">Đúng/Sai</option>
+                                  <option value="TL">Trả lời ngắn / Tự luận</option>
+                              </select>
+                              <select 
+                                  value={bankLevelFilter}
+                                  onChange={(e) => setBankLevelFilter(Number(e.target.value))}
+                                  className="w-full bg-blue-800 border border-blue-600 rounded-lg p-2 text-white text-xs"
+                              >
+                                  <option value={0}>Mọi mức độ</option>
+                                  {LEVEL_NAMES.map((name, i) => <option key={name} value={i + 1}>{name}</option>)}
+                              </select>
+                          </div>
+                      </div>
+                  </div>
+
+                  <div>
+                      <div className="flex items-center gap-2 mb-2 text-blue-200 uppercase text-xs font-bold tracking-wider">
+                          <span className="w-5 h-5 rounded-full border border-blue-300 flex items-center justify-center text-[10px]">3</span>
+                          Sử dụng câu đã chọn ({bankSelected.length})
+                      </div>
+                      <div className="space-y-2">
+                          <button
+                              onClick={() => handleSendBankSelection('latex-shuffle')}
+                              disabled={bankSelected.length === 0}
+                              className="w-full py-2.5 rounded-xl font-bold text-sm shadow-lg transition-all bg-yellow-500 hover:bg-yellow-400 text-blue-900 disabled:bg-blue-950 disabled:text-blue-500"
+                          >
+                              Gửi sang Trộn Đề
+                          </button>
+                          <button
+                              onClick={() => handleSendBankSelection('latex')}
+                              disabled={bankSelected.length === 0}
+                              className="w-full py-2 bg-blue-600 hover:bg-blue-500 disabled:bg-blue-950 disabled:text-blue-500 text-white rounded-lg font-bold text-xs shadow-md transition-all"
+                          >
+                              Gửi sang công cụ Lọc (tab LaTeX)
+                          </button>
+                          <button
+                              onClick={handleDeleteBankSelection}
+                              disabled={bankSelected.length === 0}
+                              className="w-full py-2 text-red-300 hover:bg-red-500/20 border border-red-500/30 disabled:opacity-30 rounded-lg font-bold text-xs transition-all"
+                          >
+                              Xóa khỏi ngân hàng
+                          </button>
+                      </div>
+                  </div>
+              </div>
+          )}
+
+          {activeTab !== 'settings' && activeTab !== 'bank' && (
             <div className="space-y-6 animate-fade-in-up">
               
               <div>
                 <div className="flex items-center gap-2 mb-2 text-blue-200 uppercase text-xs font-bold tracking-wider">
                   <span className="w-5 h-5 rounded-full border border-blue-300 flex items-center justify-center text-[10px]">1</span>
-                  {activeTab === 'latex-shuffle' ? 'Tải lên File LaTeX gốc (.tex)' : 'Tải lên hoặc Dán nội dung'}
+                  {activeTab === 'latex-shuffle' ? 'Tải lên đề gốc (.tex hoặc Word .docx)' : 'Tải lên hoặc Dán nội dung'}
                 </div>
                 
                 <label className="block w-full cursor-pointer group mb-3">
@@ -1141,7 +4788,8 @@ oly]{}
                     <input 
                       type="file" 
                       className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
-                      accept={activeTab === 'latex-shuffle' ? ".tex" : ".pdf,.png,.jpg,.jpeg"}
+                      accept={activeTab === 'latex-shuffle' ? ".tex,.docx,.doc,.html,.htm" : ".pdf,.png,.jpg,.jpeg"}
+                      multiple={activeTab === 'word' || activeTab === 'latex'}
                       onChange={handleFileChange}
                     />
                     <div className="text-center space-y-2 pointer-events-none">
@@ -1152,7 +4800,7 @@ oly]{}
                           </svg>
                           <p className="text-base font-medium text-green-300 truncate px-2">{fileName}</p>
                           <p className="text-xs text-green-200/70">
-                            {file.type === 'application/pdf' ? 'Đã nhận dạng PDF' : activeTab === 'latex-shuffle' ? 'File TeX sẵn sàng' : 'File ảnh đã sẵn sàng'}
+                            {file.type === 'application/pdf' ? 'Đã nhận dạng PDF' : activeTab === 'latex-shuffle' ? (/\.(docx?|html?)$/i.test(file.name) ? 'File Word sẵn sàng' : 'File TeX sẵn sàng') : 'File ảnh đã sẵn sàng'}
                           </p>
                         </>
                       ) : pastedText ? (
@@ -1167,13 +4815,106 @@ oly]{}
                           <svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8 mx-auto text-blue-300/50" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
                           </svg>
-                          <p className="text-base font-medium text-blue-100">{activeTab === 'latex-shuffle' ? 'Chọn file .tex' : 'Chọn file PDF/Ảnh'}</p>
+                          <p className="text-base font-medium text-blue-100">{activeTab === 'latex-shuffle' ? 'Chọn file .tex / .docx' : 'Chọn file PDF/Ảnh'}</p>
                           <p className="text-xs text-blue-300">Hoặc ấn <span className="font-bold text-white bg-blue-800 px-1 rounded">Ctrl + V</span> để dán</p>
                         </>
                       )}
                     </div>
                   </div>
                 </label>
+
+                {(activeTab === 'word' || activeTab === 'latex') && (file || pastedText) && queue.length === 0 && (
+                    <button
+                        onClick={handleAddCurrentFileToQueue}
+                        className="w-full py-1.5 text-xs text-blue-200 hover:text-white border border-blue-700 hover:bg-blue-800/50 rounded-lg transition-colors"
+                    >
+                        + Đưa vào hàng đợi để chuyển nhiều file
+                    </button>
+                )}
+
+                {(activeTab === 'word' || activeTab === 'latex') && queue.length > 0 && (
+                    <div className="bg-blue-950/50 p-3 rounded-xl border border-blue-800/30 space-y-2">
+                        <div className="flex items-center gap-2 text-yellow-300 uppercase text-xs font-bold tracking-wider">
+                            <span className="flex-1">Hàng đợi ({queue.filter(q => q.status === 'done').length}/{queue.length} xong)</span>
+                            <button onClick={() => { setQueue([]); setQueueRunMode(null); }} disabled={isLoading} className="text-[10px] text-blue-300 hover:text-white normal-case font-normal underline">Xóa hết</button>
+                        </div>
+                        <div className="grid grid-cols-2 gap-2">
+                            <select
+                                value={queueMode}
+                                onChange={(e) => setQueueMode(e.target.value as 'sequential' | 'parallel')}
+                                disabled={isLoading}
+                                className="bg-blue-800 border border-blue-600 rounded-lg p-1.5 text-white text-xs"
+                            >
+                                <option value="sequential">Lần lượt từng file</option>
+                                <option value="parallel">Song song ({batchPool.concurrency} file)</option>
+                            </select>
+                            <select
+                                value={queueOutput}
+                                onChange={(e) => setQueueOutput(e.target.value as 'merged' | 'separate')}
+                                disabled={isLoading}
+                                className="bg-blue-800 border border-blue-600 rounded-lg p-1.5 text-white text-xs"
+                            >
+                                <option value="merged">Gộp một kết quả</option>
+                                <option value="separate">Tách từng file</option>
+                            </select>
+                        </div>
+                        <div className="max-h-56 overflow-y-auto custom-scrollbar space-y-1 pr-1">
+                            {queue.map((item, idx) => (
+                                <div key={item.id} className="flex items-center gap-1 text-xs bg-blue-900/40 rounded px-2 py-1">
+                                    <span className="text-blue-400 w-4 text-right">{idx + 1}</span>
+                                    <span className="flex-1 truncate text-blue-100" title={item.error || item.name}>{item.name}</span>
+                                    {item.pages && (
+                                        <span className="text-[10px] text-blue-300" title="Trang đã chọn trong khung xem trước">
+                                            {item.pages.filter(p => p.selected && !p.answerOnly).length}/{item.pages.length} tr
+                                        </span>
+                                    )}
+                                    <span className={`px-1.5 rounded text-[10px] font-bold ${
+                                        item.status === 'done' ? 'bg-green-500/20 text-green-300'
+                                        : item.status === 'error' ? 'bg-red-500/20 text-red-300'
+                                        : item.status === 'running' ? 'bg-yellow-500/20 text-yellow-300'
+                                        : 'bg-blue-800 text-blue-300'}`}>
+                                        {item.status === 'done' ? 'Xong' : item.status === 'error' ? 'Lỗi' : item.status === 'running' ? `${item.progress}%` : 'Chờ'}
+                                    </span>
+                                    {item.status === 'done' && (
+                                        <>
+                                            <button onClick={() => setResultContent(item.result)} className="text-blue-300 hover:text-white" title="Xem kết quả">👁</button>
+                                            {queueOutput === 'separate' && (
+                                                <button onClick={() => handleDownloadQueueItem(item)} className="text-blue-300 hover:text-white" title="Tải file">⬇</button>
+                                            )}
+                                        </>
+                                    )}
+                                    <button onClick={() => handleMoveQueueItem(idx, -1)} disabled={isLoading || idx === 0} className="text-blue-300 hover:text-white disabled:opacity-30" title="Lên">▲</button>
+                                    <button onClick={() => handleMoveQueueItem(idx, 1)} disabled={isLoading || idx === queue.length - 1} className="text-blue-300 hover:text-white disabled:opacity-30" title="Xuống">▼</button>
+                                    <button onClick={() => setQueue(prev => prev.filter(q => q.id !== item.id))} disabled={isLoading} className="text-red-300 hover:text-red-200 disabled:opacity-30" title="Bỏ khỏi hàng đợi">✕</button>
+                                </div>
+                            ))}
+                        </div>
+                        {queueRunMode && !isLoading && queue.some(q => q.status !== 'done' && q.file.type === 'application/pdf') && (
+                            <button
+                                onClick={() => executeAction(queueRunMode, 'unfinished')}
+                                className="w-full py-1.5 bg-yellow-500 hover:bg-yellow-400 text-blue-900 rounded-lg font-bold text-xs transition-all"
+                            >
+                                Tiếp tục các file PDF từ lô đã lưu
+                            </button>
+                        )}
+                        {queueOutput === 'separate' && queue.some(q => q.status === 'done') && (
+                            <button
+                                onClick={handleDownloadQueueZip}
+                                className="w-full py-1.5 bg-blue-600 hover:bg-blue-500 text-white rounded-lg font-bold text-xs shadow-md transition-all"
+                            >
+                                Tải tất cả (.zip)
+                            </button>
+                        )}
+                        {queueOutput === 'merged' && queue.some(q => q.status === 'done') && !isLoading && (
+                            <button
+                                onClick={() => setResultContent(mergeQueueResults(queue.filter(q => q.status === 'done').map(q => ({ name: q.name, result: q.result }))))}
+                                className="w-full py-1.5 bg-blue-800 hover:bg-blue-700 border border-blue-600 text-white rounded-lg font-bold text-xs transition-all"
+                            >
+                                Gộp lại theo thứ tự hiện tại
+                            </button>
+                        )}
+                    </div>
+                )}
               </div>
 
               {activeTab === 'latex-shuffle' && (
@@ -1193,6 +4934,25 @@ oly]{}
                                   placeholder="101, 102, 103"
                               />
                           </div>
+                          <div>
+                              <label className="text-xs text-blue-300 block mb-1">Seed trộn đề (giữ nguyên để tạo lại đúng mã đề cũ)</label>
+                              <div className="flex gap-2">
+                                  <input 
+                                      type="text" 
+                                      value={shuffleSeed}
+                                      onChange={(e) => handleShuffleSeedChange(e.target.value)}
+                                      className="flex-1 min-w-0 bg-blue-800/30 border border-blue-600 rounded-lg p-2 text-white text-sm font-mono"
+                                      placeholder="VD: HK1-2025"
+                                  />
+                                  <button 
+                                      onClick={() => handleShuffleSeedChange(generateSeed())}
+                                      className="px-3 bg-blue-800 hover:bg-blue-700 border border-blue-600 rounded-lg text-xs text-blue-200 font-bold"
+                                      title="Tạo seed mới"
+                                  >
+                                      Seed mới
+                                  </button>
+                              </div>
+                          </div>
                           <label className="flex items-center gap-2 text-sm text-white cursor-pointer select-none">
                               <input 
                                   type="checkbox" 
@@ -1202,6 +4962,109 @@ oly]{}
                               />
                               Không trộn câu hỏi Đúng/Sai (Giữ thứ tự a,b,c,d)
                           </label>
+                          <p className="text-[10px] text-blue-400 italic">* Nhóm câu dùng chung dữ kiện: đặt giữa hai dòng <span className="font-mono">%group:begin</span> và <span className="font-mono">%group:end</span>. Trong dữ kiện có thể ghi {'{{tu}}'}, {'{{den}}'} để tự điền số câu. Đề Word: mỗi dấu là một đoạn riêng.</p>
+                          <p className="text-[10px] text-blue-400 italic">* Giữ cố định: ghi <span className="font-mono">%fixed</span> cuối dòng <span className="font-mono">\begin{'{'}ex{'}'}</span> (cả câu) hoặc cuối dòng của phương án (vd: "Cả A, B, C đều đúng"). Đề Word: ghi <span className="font-mono">%fixed</span> sau "Câu N." (cả câu) hoặc cuối phương án.</p>
+                          <label className="flex items-center gap-2 text-sm text-white cursor-pointer select-none">
+                              <input 
+                                  type="checkbox" 
+                                  checked={includeMapAppendix}
+                                  onChange={(e) => setIncludeMapAppendix(e.target.checked)}
+                                  className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                              />
+                              Thêm trang bảng đối chiếu vào cuối file .tex (Word: cuối file đáp án)
+                          </label>
+                          <label className="flex items-center gap-2 text-sm text-white cursor-pointer select-none">
+                              <input 
+                                  type="checkbox" 
+                                  checked={balanceLevels}
+                                  onChange={(e) => setBalanceLevels(e.target.checked)}
+                                  className="w-4 h-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                              />
+                              Cân bằng mức độ (trộn trong từng mức NB → TH → VD → VDC)
+                          </label>
+                          <div>
+                              <label className="text-xs text-blue-300 block mb-1">Preamble (phần trước \begin{'{'}document{'}'})</label>
+                              <select 
+                                  value={preambleMode} 
+                                  onChange={(e) => setPreambleMode(e.target.value as PreambleMode)}
+                                  className="w-full bg-blue-800 border border-blue-600 rounded-lg p-2 text-white text-xs"
+                              >
+                                  <option value="builtin">Dùng preamble mặc định (ex_test)</option>
+                                  <option value="merge">Gộp preamble file gốc vào preamble mặc định</option>
+                                  <option value="source">Giữ nguyên preamble file gốc</option>
+                              </select>
+                              {preambleMode === 'source' && (
+                                  <p className="text-[10px] text-yellow-300 mt-1 italic">* File gốc cần có sẵn các lệnh \tieude, \chantrang, \tieudea... dùng trong đề trộn.</p>
+                              )}
+                          </div>
+
+                          <div className="bg-blue-950/50 p-3 rounded-xl border border-blue-800/30">
+                              <button 
+                                  onClick={() => setShowHeaderForm(!showHeaderForm)}
+                                  className="w-full flex justify-between items-center text-white font-bold text-xs hover:text-blue-300"
+                              >
+                                  <span>TIÊU ĐỀ ĐỀ THI ({examHeader.name || 'Chưa đặt tên'})</span>
+                                  <svg xmlns="http://www.w3.org/2000/svg" className={`h-4 w-4 transform transition-transform ${showHeaderForm ? 'rotate-180' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" /></svg>
+                              </button>
+
+                              {showHeaderForm && (
+                                  <div className="space-y-2 pt-3 mt-2 border-t border-blue-800 animate-fade-in">
+                                      {headerTemplates.length > 0 && (
+                                          <div>
+                                              <label className="text-xs text-blue-300 block mb-1">Chọn mẫu đã lưu</label>
+                                              <div className="flex gap-2">
+                                                  <select 
+                                                      value={headerTemplates.some(t => t.name === examHeader.name) ? examHeader.name : ''}
+                                                      onChange={(e) => handleSelectHeaderTemplate(e.target.value)}
+                                                      className="flex-1 min-w-0 bg-blue-800 border border-blue-600 rounded-lg p-2 text-white text-xs"
+                                                  >
+                                                      <option value="" disabled>-- Chọn mẫu --</option>
+                                                      {headerTemplates.map(t => (
+                                                          <option key={t.name} value={t.name}>{t.name}</option>
+                                                      ))}
+                                                  </select>
+                                                  <button 
+                                                      onClick={() => handleDeleteHeaderTemplate(examHeader.name)}
+                                                      disabled={!headerTemplates.some(t => t.name === examHeader.name)}
+                                                      className="text-red-400 hover:text-red-300 px-2 rounded hover:bg-red-500/20 disabled:opacity-30"
+                                                      title="Xóa mẫu"
+                                                  >
+                                                      <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                                                      </svg>
+                                                  </button>
+                                              </div>
+                                          </div>
+                                      )}
+                                      {([
+                                          ['name', 'Tên mẫu', 'Giữa kì, Cuối kì, Thi thử...'],
+                                          ['school', 'Tên trường', 'TRƯỜNG THPT ...'],
+                                          ['teacher', 'Giáo viên / Tổ chuyên môn', 'TỔ VẬT LÍ'],
+                                          ['examName', 'Tên kỳ thi', 'ĐỀ KIỂM TRA CUỐI KÌ 1'],
+                                          ['subject', 'Môn thi', 'VẬT LÍ'],
+                                          ['duration', 'Thời gian làm bài (phút)', '50'],
+                                          ['pageCount', 'Số trang (để trống: tự đếm)', 'Tự động']
+                                      ] as [keyof ExamHeader, string, string][]).map(([field, label, placeholder]) => (
+                                          <div key={field}>
+                                              <label className="text-xs text-blue-300 block mb-1">{label}</label>
+                                              <input 
+                                                  type="text" 
+                                                  value={examHeader[field]}
+                                                  onChange={(e) => handleExamHeaderChange(field, e.target.value)}
+                                                  className="w-full bg-blue-800/30 border border-blue-600 rounded-lg p-2 text-white text-sm"
+                                                  placeholder={placeholder}
+                                              />
+                                          </div>
+                                      ))}
+                                      <button
+                                          onClick={handleSaveHeaderTemplate}
+                                          className="w-full py-2 bg-blue-600 hover:bg-blue-500 text-white rounded-lg font-bold text-xs shadow-md transition-all"
+                                      >
+                                          Lưu thành mẫu "{examHeader.name.trim() || '...'}"
+                                      </button>
+                                  </div>
+                              )}
+                          </div>
                       </div>
                   </div>
               )}
@@ -1234,11 +5097,41 @@ oly]{}
                         </button>
                     ) : (
                         <>
+                            {resumeOffer && !isLoading && (
+                                <div className="bg-yellow-500/10 border border-yellow-500/40 rounded-xl p-3 space-y-2">
+                                    <p className="text-xs text-yellow-200">
+                                        Lần trước ({resumeOffer.mode === 'solve' ? 'giải' : 'chuyển đổi'}) đã xong <b>{resumeOffer.done}/{resumeOffer.totalBatches}</b> lô 6 trang
+                                        {resumeOffer.failed > 0 && <>, <b className="text-red-300">{resumeOffer.failed}</b> lô lỗi</>}.
+                                    </p>
+                                    <div className="flex flex-wrap gap-2">
+                                        <button
+                                            onClick={() => executeAction(resumeOffer.mode, 'unfinished')}
+                                            className="flex-1 py-1.5 px-2 bg-yellow-500 hover:bg-yellow-400 text-blue-900 rounded-lg text-xs font-bold"
+                                        >
+                                            {resumeOffer.done === resumeOffer.totalBatches ? 'Khôi phục kết quả' : `Tiếp tục (${resumeOffer.totalBatches - resumeOffer.done} lô)`}
+                                        </button>
+                                        {resumeOffer.failed > 0 && (
+                                            <button
+                                                onClick={() => executeAction(resumeOffer.mode, 'failed')}
+                                                className="flex-1 py-1.5 px-2 bg-blue-800 hover:bg-blue-700 text-white rounded-lg text-xs font-bold border border-blue-600"
+                                            >
+                                                Chạy lại {resumeOffer.failed} lô lỗi
+                                            </button>
+                                        )}
+                                        <button
+                                            onClick={handleDiscardResume}
+                                            className="py-1.5 px-2 text-blue-300 hover:text-white text-xs underline"
+                                        >
+                                            Xóa bản lưu
+                                        </button>
+                                    </div>
+                                </div>
+                            )}
                             <button
                             onClick={() => executeAction('convert')}
-                            disabled={isLoading || (!file && !pastedText)}
+                            disabled={isLoading || (!file && !pastedText && queue.length === 0)}
                             className={`w-full py-3.5 rounded-xl font-bold text-lg shadow-lg flex items-center justify-center gap-2 transition-all 
-                                ${isLoading || (!file && !pastedText) ? 'bg-blue-950 text-blue-500 cursor-not-allowed border border-blue-800' : 'bg-white hover:bg-blue-50 text-blue-900'}`}
+                                ${isLoading || (!file && !pastedText && queue.length === 0) ? 'bg-blue-950 text-blue-500 cursor-not-allowed border border-blue-800' : 'bg-white hover:bg-blue-50 text-blue-900'}`}
                             >
                             {isLoading && loadingStatus ? (
                                 <>
@@ -1248,7 +5141,7 @@ oly]{}
                             ) : (
                                 <>
                                 <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 10V3L4 14h7v7l9-11h-7z" /></svg>
-                                <span>Chuyển đổi sang {activeTab === 'word' ? 'Word' : 'LaTeX'}</span>
+                                <span>Chuyển đổi {queue.length > 0 ? `${queue.length} file ` : ''}sang {activeTab === 'word' ? 'Word' : 'LaTeX'}</span>
                                 </>
                             )}
                             </button>
@@ -1256,9 +5149,9 @@ oly]{}
                             {activeTab === 'word' && (
                                 <button
                                 onClick={() => executeAction('solve')}
-                                disabled={isLoading || (!file && !pastedText)}
+                                disabled={isLoading || (!file && !pastedText && queue.length === 0)}
                                 className={`w-full py-3.5 rounded-xl font-bold text-lg shadow-lg flex items-center justify-center gap-2 transition-all 
-                                    ${isLoading || (!file && !pastedText) 
+                                    ${isLoading || (!file && !pastedText && queue.length === 0) 
                                         ? 'bg-blue-950 text-blue-500 cursor-not-allowed border border-blue-800' 
                                         : 'bg-yellow-500 hover:bg-yellow-400 text-blue-900 border border-yellow-500'}`}
                                 >
@@ -1279,6 +5172,151 @@ oly]{}
                     )}
                 </div>
 
+                {activeTab === 'latex-shuffle' && answerKey.length > 0 && (
+                  <div className="mt-6 border-t border-blue-800 pt-4">
+                     <div className="flex items-center gap-2 mb-2 text-yellow-300 uppercase text-xs font-bold tracking-wider">
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" />
+                        </svg>
+                        Xuất đáp án và đối chiếu ({new Set(answerKey.map(e => e.code)).size} mã đề)
+                     </div>
+                     <div className="grid grid-cols-2 gap-2">
+                        <button
+                           onClick={() => handleDownloadAnswerKey('csv')}
+                           className="py-2 bg-blue-600 hover:bg-blue-500 text-white rounded-lg font-bold text-xs shadow-md transition-all"
+                        >
+                           Tải đáp án CSV
+                        </button>
+                        <button
+                           onClick={() => handleDownloadAnswerKey('json')}
+                           className="py-2 bg-blue-600 hover:bg-blue-500 text-white rounded-lg font-bold text-xs shadow-md transition-all"
+                        >
+                           Tải đáp án JSON
+                        </button>
+                        <button
+                           onClick={handleDownloadQuestionMap}
+                           className="col-span-2 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded-lg font-bold text-xs shadow-md transition-all"
+                        >
+                           Tải bảng đối chiếu (CSV)
+                        </button>
+                        {wordShuffleDocs.map(doc => (
+                           <button
+                              key={doc.name}
+                              onClick={() => handleDownloadWordDoc(doc)}
+                              className={`py-2 bg-green-600 hover:bg-green-500 text-white rounded-lg font-bold text-xs shadow-md transition-all ${doc.name === 'DapAn' ? 'col-span-2' : ''}`}
+                           >
+                              {doc.name === 'DapAn' ? 'Tải đáp án các mã đề (Word)' : `Tải mã đề ${doc.name.replace('MaDe_', '')} (Word)`}
+                           </button>
+                        ))}
+                     </div>
+                     <p className="text-[10px] text-blue-400 mt-2 italic">* Dùng để nhập vào bảng tính chấm điểm hoặc máy chấm trắc nghiệm.</p>
+                  </div>
+                )}
+
+                {activeTab === 'latex-shuffle' && (
+                  <div className="mt-6 border-t border-blue-800 pt-4">
+                     <button 
+                        onClick={() => setShowBlueprint(!showBlueprint)}
+                        className="w-full flex justify-between items-center mb-2 text-yellow-300 uppercase text-xs font-bold tracking-wider hover:text-yellow-200"
+                     >
+                        <span className="flex items-center gap-2">
+                           <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h18M3 14h18m-9-4v8m-7 0h14a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v8a2 2 0 002 2z" />
+                           </svg>
+                           Tạo đề từ ngân hàng (Ma trận đề)
+                        </span>
+                        <svg xmlns="http://www.w3.org/2000/svg" className={`h-4 w-4 transform transition-transform ${showBlueprint ? 'rotate-180' : ''}`} fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" /></svg>
+                     </button>
+
+                     {showBlueprint && (
+                        <div className="space-y-3 animate-fade-in">
+                           <div>
+                               <label className="text-xs text-blue-300 block mb-1">File .tex ngân hàng câu hỏi {filterFiles && filterFiles.length > 0 ? `(${filterFiles.length} file)` : ''}</label>
+                               <input 
+                                 type="file"
+                                 multiple
+                                 accept=".tex"
+                                 onChange={(e) => setFilterFiles(e.target.files)}
+                                 className="block w-full text-xs text-blue-200 file:mr-2 file:py-1 file:px-2 file:rounded-md file:border-0 file:text-xs file:font-semibold file:bg-blue-800 file:text-blue-200 hover:file:bg-blue-700"
+                               />
+                           </div>
+
+                           {blueprintRows.length > 0 && (
+                               <div className="space-y-2">
+                                   <div className="grid grid-cols-12 gap-1 text-[10px] text-blue-300 font-bold">
+                                       <span className="col-span-4">Chủ đề / từ khóa</span>
+                                       <span className="col-span-3">Mức độ</span>
+                                       <span className="col-span-2">Loại</span>
+                                       <span className="col-span-2">Số câu</span>
+                                   </div>
+                                   {blueprintRows.map((row, idx) => (
+                                       <div key={idx} className="grid grid-cols-12 gap-1 items-center">
+                                           <input 
+                                               type="text"
+                                               value={row.keyword}
+                                               onChange={(e) => handleBlueprintRowChange(idx, { keyword: e.target.value })}
+                                               placeholder="Tất cả"
+                                               className="col-span-4 min-w-0 bg-blue-800/30 border border-blue-600 rounded p-1 text-white text-xs"
+                                           />
+                                           <select 
+                                               value={row.level}
+                                               onChange={(e) => handleBlueprintRowChange(idx, { level: Number(e.target.value) })}
+                                               className="col-span-3 min-w-0 bg-blue-800 border border-blue-600 rounded p-1 text-white text-[10px]"
+                                           >
+                                               <option value={0}>Bất kỳ</option>
+                                               {LEVEL_NAMES.map((name, i) => <option key={name} value={i + 1}>{name}</option>)}
+                                           </select>
+                                           <select 
+                                               value={row.type}
+                                               onChange={(e) => handleBlueprintRowChange(idx, { type: e.target.value as BlueprintRow['type'] })}
+                                               className="col-span-2 min-w-0 bg-blue-800 border border-blue-600 rounded p-1 text-white text-[10px]"
+                                           >
+                                               <option value="TN">TN</option>
+                                               <option value="TF">Đ/S</option>
+                                               <option value="TL">TL</option>
+                                           </select>
+                                           <input 
+                                               type="number"
+                                               min={1}
+                                               value={row.count}
+                                               onChange={(e) => handleBlueprintRowChange(idx, { count: Math.max(1, Number(e.target.value) || 1) })}
+                                               className="col-span-2 min-w-0 bg-blue-800/30 border border-blue-600 rounded p-1 text-white text-xs"
+                                           />
+                                           <button 
+                                               onClick={() => handleDeleteBlueprintRow(idx)}
+                                               className="col-span-1 text-red-400 hover:text-red-300 rounded hover:bg-red-500/20 flex justify-center"
+                                               title="Xóa dòng"
+                                           >
+                                               <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+                                           </button>
+                                       </div>
+                                   ))}
+                                   <p className="text-[10px] text-blue-400 text-right">
+                                       Tổng: {blueprintRows.reduce((sum, r) => sum + r.count, 0)} câu
+                                   </p>
+                               </div>
+                           )}
+
+                           <button
+                              onClick={handleAddBlueprintRow}
+                              className="w-full py-1.5 border border-dashed border-blue-500 text-blue-200 hover:bg-blue-800/50 rounded-lg text-xs font-bold"
+                           >
+                              + Thêm dòng ma trận
+                           </button>
+
+                           <button
+                              onClick={executeBlueprint}
+                              disabled={isLoading || !filterFiles || filterFiles.length === 0 || blueprintRows.length === 0}
+                              className="w-full py-2 bg-blue-600 hover:bg-blue-500 disabled:bg-blue-950 disabled:text-blue-500 text-white rounded-lg font-bold text-xs shadow-md transition-all"
+                           >
+                              Rút câu theo ma trận và trộn đề
+                           </button>
+                           <p className="text-[10px] text-blue-400 italic">* Dùng mã đề, seed và tiêu đề ở phần cấu hình trộn phía trên. Cùng seed sẽ rút ra cùng bộ câu hỏi.</p>
+                        </div>
+                     )}
+                  </div>
+                )}
+
                 {activeTab === 'latex' && (
                   <div className="mt-6 border-t border-blue-800 pt-4">
                      <div className="flex items-center gap-2 mb-2 text-yellow-300 uppercase text-xs font-bold tracking-wider">
@@ -1300,15 +5338,19 @@ oly]{}
                      </div>
 
                      <div className="mb-3">
-                         <label className="text-xs text-blue-300 block mb-1">Lọc theo từ khóa (cách nhau dấu phẩy)</label>
+                         <label className="text-xs text-blue-300 block mb-1">Biểu thức lọc (dấu phẩy = HOẶC)</label>
                          <textarea 
                             value={filterKeywords}
                             onChange={(e) => setFilterKeywords(e.target.value)}
-                            placeholder="sóng dừng, giao thoa, 20cm..."
+                            placeholder='giao thoa AND NOT "sóng dừng", type:tf has:image...'
                             className="w-full h-16 bg-blue-800/30 border border-blue-600 rounded-lg p-2 text-white text-base font-family: 'Be Vietnam Pro', sans-serif; placeholder-blue-500/50"
                          />
                      </div>
 
+                     <p className="text-[10px] text-blue-400 -mt-2 mb-3 italic">
+                         AND / OR / NOT, (...), "cụm từ", /regex/, type:tn|tf|tl, has:tikz|image|true, answer:empty, level:nb|th|vd|vdc. Không phân biệt dấu: "song dung" khớp "sóng dừng". Các từ cách nhau bằng dấu cách phải có đủ (AND); danh sách chỉ có dấu phẩy (sóng dừng, giao thoa) khớp một trong các cụm từ. "-" trước chữ là NOT, trước số là một phần của từ (-2).
+                     </p>
+
                      <div className="mb-3">
                          <label className="text-xs text-blue-300 block mb-1">Loại nội dung cần lọc</label>
                          <select 
@@ -1321,6 +5363,7 @@ oly]{}
                              <option value="tf">Trắc nghiệm Đúng/Sai</option>
                              <option value="tl">Tự luận / Trả lời ngắn</option>
                              <option value="tikz">Môi trường TikZ (\begin{'{'}tikzpicture{'}'}...)</option>
+                             <option value="figures">Thư viện hình (TikZ, includegraphics, immini)</option>
                          </select>
                      </div>
 
@@ -1337,6 +5380,164 @@ oly]{}
                         Thực hiện Lọc
                      </button>
                      <p className="text-[10px] text-blue-400 mt-2 italic">* Nếu không chọn file, sẽ lọc nội dung đang hiển thị bên phải.</p>
+
+                     <div className="mt-4 pt-3 border-t border-blue-800/60">
+                        <div className="flex items-center gap-2 mb-2">
+                           <label className="text-xs text-blue-300 flex-1">Ngưỡng gần giống (%)</label>
+                           <input 
+                              type="number"
+                              min={50}
+                              max={100}
+                              value={dupThreshold}
+                              onChange={(e) => setDupThreshold(Math.min(100, Math.max(50, Number(e.target.value) || 85)))}
+                              className="w-16 bg-blue-800/30 border border-blue-600 rounded p-1 text-white text-xs"
+                           />
+                        </div>
+                        <button
+                           onClick={handleFindDuplicates}
+                           disabled={isLoading}
+                           className="w-full py-2 bg-blue-600 hover:bg-blue-500 text-white rounded-lg font-bold text-xs shadow-md transition-all"
+                        >
+                           Tìm câu trùng lặp
+                        </button>
+
+                        {duplicateReport && duplicateReport.clusters.length > 0 && (
+                           <div className="mt-3 space-y-3">
+                              <p className="text-xs text-white font-bold">
+                                 {duplicateReport.clusters.length} cụm trùng / {duplicateReport.questions.length} câu. Chọn câu giữ lại:
+                              </p>
+                              <div className="max-h-72 overflow-y-auto custom-scrollbar space-y-2 pr-1">
+                                 {duplicateReport.clusters.map((cluster, cIdx) => (
+                                    <div key={cIdx} className="bg-blue-900/50 p-2 rounded-lg border border-blue-800 space-y-1">
+                                       <p className="text-[10px] font-bold text-yellow-300">
+                                          Cụm {cIdx + 1} - {cluster.exact ? 'Trùng khớp' : 'Gần giống'}
+                                       </p>
+                                       {cluster.members.map(member => {
+                                          const question = duplicateReport.questions.find(q => q.id === member.id)!;
+                                          return (
+                                             <label key={member.id} className="flex items-start gap-2 text-[11px] text-blue-100 cursor-pointer">
+                                                <input 
+                                                   type="radio"
+                                                   name={`dup-${cIdx}`}
+                                                   checked={cluster.keepId === member.id}
+                                                   onChange={() => handleKeepDuplicate(cIdx, member.id)}
+                                                   className="mt-0.5"
+                                                />
+                                                <span className="flex-1 min-w-0">
+                                                   <span className="font-bold">{member.id}</span> ({Math.round(member.similarity * 100)}%){' '}
+                                                   <span className="text-blue-300">{question.fullContent.replace(/\\begin{ex}|\\end{ex}/g, '').trim().substring(0, 70)}...</span>
+                                                </span>
+                                             </label>
+                                          );
+                                       })}
+                                    </div>
+                                 ))}
+                              </div>
+                              <button
+                                 onClick={handleApplyDeduplication}
+                                 className="w-full py-2 bg-yellow-500 hover:bg-yellow-400 text-blue-900 rounded-lg font-bold text-xs shadow-md transition-all"
+                              >
+                                 Giữ 1 câu mỗi cụm và xuất kết quả
+                              </button>
+                           </div>
+                        )}
+                     </div>
+
+                     <div className="mt-4 pt-3 border-t border-blue-800/60">
+                        <button
+                           onClick={handleComputeStatistics}
+                           disabled={isLoading}
+                           className="w-full py-2 bg-blue-600 hover:bg-blue-500 text-white rounded-lg font-bold text-xs shadow-md transition-all"
+                        >
+                           Thống kê câu hỏi
+                        </button>
+                        <p className="text-[10px] text-blue-400 mt-2 italic">Số câu theo loại, mức độ, thiếu \True, \shortans rỗng, có hình, từ khóa.</p>
+                     </div>
+                  </div>
+                )}
+
+                {activeTab === 'word' && resultContent && !isLoading && (
+                  <div className="mt-6 border-t border-blue-800 pt-4 space-y-2">
+                     <button
+                        onClick={handleSendWordResultToShuffle}
+                        className="w-full py-2 bg-yellow-500 hover:bg-yellow-400 text-blue-900 rounded-lg font-bold text-xs shadow-md transition-all"
+                     >
+                        Trộn đề từ kết quả Word này
+                     </button>
+                     <p className="text-[10px] text-blue-400 italic">* Mỗi câu bắt đầu bằng "Câu 1.", phương án "A." / "a)", đáp án đúng được gạch chân.</p>
+                  </div>
+                )}
+
+                {activeTab === 'latex' && resultContent && (
+                  <div className="mt-6 border-t border-blue-800 pt-4 space-y-3">
+                     <div className="flex items-center gap-2 text-yellow-300 uppercase text-xs font-bold tracking-wider">
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" /></svg>
+                        Bảng đáp án riêng
+                     </div>
+                     <textarea
+                        value={answerTableText}
+                        onChange={(e) => setAnswerTableText(e.target.value)}
+                        placeholder={"Để trống: tìm bảng đáp án cuối kết quả.\nHoặc dán: 1.A 2.C 3.B / PHẦN II 1. ĐSĐS / PHẦN III 1. 2,5"}
+                        className="w-full h-20 bg-blue-800/30 border border-blue-600 rounded-lg p-2 text-white text-xs font-mono placeholder-blue-500/50"
+                     />
+                     {file && file.type === 'application/pdf' && pdfPages.some(p => p.answerOnly) && (
+                        <button
+                           onClick={handleReadAnswerTableFromPdf}
+                           disabled={isLoading}
+                           className="w-full py-1.5 bg-blue-800 hover:bg-blue-700 border border-blue-600 text-white rounded-lg font-bold text-xs transition-all"
+                        >
+                           Đọc bảng đáp án từ trang {formatPageList(pdfPages.filter(p => p.answerOnly).map(p => p.page))}
+                        </button>
+                     )}
+                     {file && file.type === 'application/pdf' && !pdfPages.some(p => p.answerOnly) && (
+                        <div className="flex items-center gap-2">
+                           <input
+                              type="number"
+                              min={1}
+                              max={10}
+                              value={answerTablePages}
+                              onChange={(e) => setAnswerTablePages(Math.min(10, Math.max(1, Number(e.target.value) || 1)))}
+                              className="w-14 bg-blue-800/30 border border-blue-600 rounded p-1 text-white text-xs"
+                           />
+                           <button
+                              onClick={handleReadAnswerTableFromPdf}
+                              disabled={isLoading}
+                              className="flex-1 py-1.5 bg-blue-800 hover:bg-blue-700 border border-blue-600 text-white rounded-lg font-bold text-xs transition-all"
+                           >
+                              Đọc bảng đáp án từ trang cuối PDF
+                           </button>
+                        </div>
+                     )}
+                     <button
+                        onClick={handleApplyAnswerTable}
+                        disabled={isLoading}
+                        className="w-full py-2 bg-blue-600 hover:bg-blue-500 text-white rounded-lg font-bold text-xs shadow-md transition-all"
+                     >
+                        Điền \True / \shortans theo bảng đáp án
+                     </button>
+                     {answerTableReport && (
+                        <div className="p-2 bg-yellow-500/10 border border-yellow-500/20 text-yellow-200 rounded-lg text-[11px] space-y-1 max-h-48 overflow-y-auto custom-scrollbar">
+                           <p className="font-bold">Đã điền {answerTableReport.applied} câu. {answerTableReport.messages.length > 0 ? `Chênh lệch (${answerTableReport.messages.length}):` : 'Không có chênh lệch.'}</p>
+                           {answerTableReport.messages.map((m, idx) => <p key={idx}>• {m}</p>)}
+                        </div>
+                     )}
+                  </div>
+                )}
+
+                {activeTab === 'latex' && resultContent && (
+                  <div className="mt-6 border-t border-blue-800 pt-4 space-y-3">
+                     <div className="flex items-center gap-2 text-yellow-300 uppercase text-xs font-bold tracking-wider">
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 7v10c0 2.21 3.582 4 8 4s8-1.79 8-4V7M4 7c0 2.21 3.582 4 8 4s8-1.79 8-4M4 7c0-2.21 3.582-4 8-4s8 1.79 8 4" /></svg>
+                        Lưu kết quả vào ngân hàng
+                     </div>
+                     {renderBankTagInputs()}
+                     <button
+                        onClick={handleSaveResultToBank}
+                        disabled={isLoading}
+                        className="w-full py-2 bg-blue-600 hover:bg-blue-500 text-white rounded-lg font-bold text-xs shadow-md transition-all"
+                     >
+                        Lưu các câu \begin{'{'}ex{'}'} vào ngân hàng
+                     </button>
                   </div>
                 )}
 
@@ -1392,6 +5593,86 @@ oly]{}
                     <p className="text-[10px] text-blue-400 italic mt-1">Key được lưu trong trình duyệt của bạn.</p>
                   </div>
 
+                  <div className="bg-blue-950/50 p-4 rounded-xl border border-blue-800/30">
+                    <h3 className="text-white font-bold text-sm mb-3 border-b border-blue-800 pb-2">XỬ LÝ PDF SONG SONG</h3>
+                    <div className="grid grid-cols-2 gap-3">
+                        <label className="block">
+                            <span className="text-[10px] font-bold text-blue-300 uppercase mb-1 block">Số lô đồng thời</span>
+                            <input 
+                                type="number"
+                                min={1}
+                                max={MAX_BATCH_CONCURRENCY}
+                                value={batchPool.concurrency}
+                                onChange={(e) => handleBatchPoolChange('concurrency', Number(e.target.value))}
+                                className="w-full bg-blue-900/50 border border-blue-700/50 rounded-lg px-3 py-2 text-xs text-white focus:outline-none focus:border-blue-400"
+                            />
+                        </label>
+                        <label className="block">
+                            <span className="text-[10px] font-bold text-blue-300 uppercase mb-1 block">Yêu cầu / phút</span>
+                            <input 
+                                type="number"
+                                min={1}
+                                value={batchPool.requestsPerMinute}
+                                onChange={(e) => handleBatchPoolChange('requestsPerMinute', Number(e.target.value))}
+                                className="w-full bg-blue-900/50 border border-blue-700/50 rounded-lg px-3 py-2 text-xs text-white focus:outline-none focus:border-blue-400"
+                            />
+                        </label>
+                    </div>
+                    <p className="text-[10px] text-blue-400 italic mt-2">File PDF được chia lô 6 trang. Đặt giới hạn theo hạn mức (quota) của API Key để tránh lỗi 429. Hàng đợi song song chia số lô đồng thời cho các file đang chạy (tối đa {MAX_BATCH_CONCURRENCY}).</p>
+                  </div>
+
+                  <div className="bg-blue-950/50 p-4 rounded-xl border border-blue-800/30 space-y-3">
+                    <h3 className="text-white font-bold text-sm border-b border-blue-800 pb-2">TIỀN XỬ LÝ ẢNH QUÉT</h3>
+                    <div className="grid grid-cols-2 gap-3">
+                        <label className="block">
+                            <span className="text-[10px] font-bold text-blue-300 uppercase mb-1 block">DPI trang PDF</span>
+                            <select
+                                value={imagePreprocess.dpi}
+                                onChange={(e) => handleImagePreprocessChange('dpi', Number(e.target.value))}
+                                className="w-full bg-blue-900/50 border border-blue-700/50 rounded-lg px-2 py-2 text-xs text-white"
+                            >
+                                {[108, 144, 216, 288].map(dpi => <option key={dpi} value={dpi}>{dpi} DPI</option>)}
+                            </select>
+                        </label>
+                        <label className="block">
+                            <span className="text-[10px] font-bold text-blue-300 uppercase mb-1 block">Định dạng</span>
+                            <select
+                                value={imagePreprocess.format}
+                                onChange={(e) => handleImagePreprocessChange('format', e.target.value as ImagePreprocessSettings['format'])}
+                                className="w-full bg-blue-900/50 border border-blue-700/50 rounded-lg px-2 py-2 text-xs text-white"
+                            >
+                                <option value="jpeg">JPEG (nhẹ)</option>
+                                <option value="png">PNG (nhiều công thức)</option>
+                            </select>
+                        </label>
+                    </div>
+                    {imagePreprocess.format === 'jpeg' && (
+                        <label className="block">
+                            <span className="text-[10px] font-bold text-blue-300 uppercase mb-1 block">Chất lượng JPEG: {Math.round(imagePreprocess.quality * 100)}%</span>
+                            <input type="range" min={0.5} max={1} step={0.05} value={imagePreprocess.quality} onChange={(e) => handleImagePreprocessChange('quality', Number(e.target.value))} className="w-full" />
+                        </label>
+                    )}
+                    <label className="block">
+                        <span className="text-[10px] font-bold text-blue-300 uppercase mb-1 block">Tăng tương phản: {imagePreprocess.contrast}%</span>
+                        <input type="range" min={0} max={100} step={5} value={imagePreprocess.contrast} onChange={(e) => handleImagePreprocessChange('contrast', Number(e.target.value))} className="w-full" />
+                    </label>
+                    <label className="block">
+                        <span className="text-[10px] font-bold text-blue-300 uppercase mb-1 block">Ngưỡng đen/trắng: {imagePreprocess.threshold || 'Tắt'}</span>
+                        <input type="range" min={0} max={230} step={5} value={imagePreprocess.threshold} onChange={(e) => handleImagePreprocessChange('threshold', Number(e.target.value))} className="w-full" />
+                    </label>
+                    {([
+                        ['grayscale', 'Chuyển ảnh xám'],
+                        ['deskew', 'Tự chỉnh nghiêng (±5°)'],
+                        ['cropBorder', 'Cắt viền đen / lề trống']
+                    ] as ['grayscale' | 'deskew' | 'cropBorder', string][]).map(([field, label]) => (
+                        <label key={field} className="flex items-center gap-2 text-xs text-blue-100 cursor-pointer">
+                            <input type="checkbox" checked={imagePreprocess[field]} onChange={(e) => handleImagePreprocessChange(field, e.target.checked)} className="w-4 h-4" />
+                            {label}
+                        </label>
+                    ))}
+                    <p className="text-[10px] text-blue-400 italic">Áp dụng cho trang PDF và ảnh tải lên/dán vào. Tải file rồi mở tab này để xem trước.</p>
+                  </div>
+
                   <div className="bg-blue-950/50 p-4 rounded-xl border border-blue-800/30">
                     <button 
                         onClick={() => setShowPackages(!showPackages)}
@@ -1453,7 +5734,14 @@ oly]{}
               </div>
           )}
           
-          {error && <div className="mt-4 p-3 bg-red-500/10 border border-red-500/20 text-red-300 rounded-lg text-sm font-medium">{error}</div>}
+          {error && <div className="mt-4 p-3 bg-red-500/10 border border-red-500/20 text-red-300 rounded-lg text-sm font-medium whitespace-pre-line">{error}</div>}
+
+          {activeTab === 'latex-shuffle' && shuffleWarnings.length > 0 && (
+              <div className="mt-4 p-3 bg-yellow-500/10 border border-yellow-500/20 text-yellow-200 rounded-lg text-xs space-y-1">
+                  <p className="font-bold">Cảnh báo ({shuffleWarnings.length}):</p>
+                  {shuffleWarnings.map((w, idx) => <p key={idx}>• {w}</p>)}
+              </div>
+          )}
 
         </div>
         
@@ -1478,7 +5766,12 @@ oly]{}
         
         <div className="bg-white border-b border-gray-100 px-6 py-4 flex justify-between items-center z-10 min-h-[70px]">
           <h2 className="font-bold text-xl text-slate-800 flex items-center gap-2">
-             {activeTab === 'settings' ? (
+             {activeTab === 'bank' ? (
+                <>
+                   <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6 text-blue-600" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 7v10c0 2.21 3.582 4 8 4s8-1.79 8-4V7M4 7c0 2.21 3.582 4 8 4s8-1.79 8-4M4 7c0-2.21 3.582-4 8-4s8 1.79 8 4m0 5c0 2.21-3.582 4-8 4s-8-1.79-8-4" /></svg>
+                   Ngân hàng câu hỏi ({filteredBankQuestions.length}/{bankQuestions.length} câu)
+                </>
+             ) : activeTab === 'settings' ? (
                 <>
                    <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6 text-blue-600" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" /><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" /></svg>
                    Thông tin & Cài đặt
@@ -1515,10 +5808,10 @@ oly]{}
                <>
                  <button onClick={handleDownload} className="px-5 py-2.5 text-sm font-bold text-white bg-green-600 hover:bg-green-700 rounded-lg shadow-sm flex items-center gap-2 transition-all">
                     <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" /></svg>
-                    {activeTab === 'word' ? 'Tải xuống Word' : 'Tải xuống .Tex'}
+                    {activeTab === 'word' || wordShuffleDocs.length > 0 ? 'Tải xuống Word' : 'Tải xuống .Tex'}
                  </button>
                  
-                 {(activeTab === 'latex' || activeTab === 'latex-shuffle') && (
+                 {(activeTab === 'latex' || activeTab === 'latex-shuffle') && wordShuffleDocs.length === 0 && (
                      <button onClick={handleOpenOverleaf} className="px-5 py-2.5 text-sm font-bold text-white bg-teal-600 hover:bg-teal-700 rounded-lg shadow-sm flex items-center gap-2 transition-all">
                         <svg className="h-5 w-5" viewBox="0 0 24 24" fill="currentColor">
                            <path d="M12 0c-6.627 0-12 5.373-12 12s5.373 12 12 12 12-5.373 12-12-5.373-12-12-12zm0 2c5.514 0 10 4.486 10 10s-4.486 10-10 10-10-4.486-10-10 4.486-10 10-10zm-1.5 5l-4.5 9h3l1.5-3.5 1.5 3.5h3l-4.5-9h-3zm1.5 1.5l2 5h-4l2-5z"/>
@@ -1527,6 +5820,13 @@ oly]{}
                      </button>
                  )}
 
+                 {(activeTab === 'latex' || activeTab === 'latex-shuffle') && wordShuffleDocs.length === 0 && !isPreviewMode && (
+                     <button onClick={handleLintLatex} className="px-5 py-2.5 text-sm font-bold text-white bg-orange-500 hover:bg-orange-600 rounded-lg shadow-sm flex items-center gap-2 transition-all">
+                        <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.040A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z" /></svg>
+                        Kiểm tra LaTeX
+                     </button>
+                 )}
+
                  <button onClick={handleCopy} className="px-5 py-2.5 text-sm font-bold text-white bg-blue-600 hover:bg-blue-700 rounded-lg shadow-sm flex items-center gap-2 transition-all">
                     <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 5H6a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2v-1M8 5a2 2 0 002 2h2a2 2 0 002-2M8 5a2 2 0 012-2h2a2 2 0 012 2m0 0h2a2 2 0 012 2v3m2 4H10m0 0l3-3m-3 3l3 3" /></svg>
                     Sao chép
@@ -1556,10 +5856,28 @@ oly]{}
                 .generated-content th { border: 1px solid #000; padding: 10px; background-color: #003366; color: #ffffff; text-align: center; font-weight: bold; }
                 .generated-content td { border: 1px solid #000; padding: 10px; text-align: center; color: #000; font-weight: bold; background-color: #f8fafc; }
                 .generated-content mjx-container { display: inline-block !important; margin: 0 !important; }
+                ::highlight(latex-lint-error) { background-color: #fecaca; }
+                ::highlight(latex-lint-warning) { background-color: #fef08a; }
               `}</style>
 
            {activeTab === 'settings' && (
-              <div className="w-full h-full bg-slate-50 flex items-center justify-center animate-fade-in-up p-8 overflow-y-auto">
+              <div className="w-full h-full bg-slate-50 flex flex-col items-center justify-center gap-6 animate-fade-in-up p-8 overflow-y-auto">
+                 {preprocessPreview && (
+                    <div className="bg-white max-w-5xl w-full rounded-2xl shadow-xl p-6 border border-blue-100">
+                       <div className="flex items-center mb-3">
+                          <p className="font-bold text-blue-900 flex-1">Xem trước tiền xử lý ảnh</p>
+                          <span className="text-xs text-slate-500">{preprocessPreview.info}</span>
+                       </div>
+                       <div className="grid grid-cols-2 gap-4">
+                          {([['Trước', preprocessPreview.before], ['Sau', preprocessPreview.after]] as [string, string][]).map(([label, src]) => (
+                             <div key={label}>
+                                <p className="text-xs font-bold text-slate-600 mb-1">{label}</p>
+                                <img src={src} alt={label} className="w-full max-h-[60vh] object-contain border border-gray-200 rounded bg-slate-100" />
+                             </div>
+                          ))}
+                       </div>
+                    </div>
+                 )}
                  <div className="bg-white max-w-2xl w-full rounded-2xl shadow-xl p-10 border border-blue-100 text-center">
                     <div className="w-24 h-24 bg-blue-600 text-white rounded-full flex items-center justify-center text-4xl font-bold mx-auto mb-6 shadow-lg">H</div>
                     <h2 className="text-3xl font-bold text-blue-900 mb-2">Nguyễn Đức Hiền</h2>
@@ -1577,8 +5895,255 @@ oly]{}
               </div>
            )}
 
-           {activeTab !== 'settings' && (
+           {activeTab === 'bank' && (
+              <div className="w-full h-full bg-white p-4 md:p-8 animate-fade-in-up">
+                 {filteredBankQuestions.length > 0 && (
+                    <label className="flex items-center gap-2 text-sm text-slate-600 mb-4 cursor-pointer select-none">
+                       <input 
+                          type="checkbox"
+                          checked={filteredBankQuestions.every(q => bankSelected.includes(q.hash))}
+                          onChange={(e) => {
+                             // Only the visible results change; selections hidden by the search stay
+                             const visible = new Set(filteredBankQuestions.map(q => q.hash));
+                             const checked = e.target.checked;
+                             setBankSelected(prev => [...prev.filter(hash => !visible.has(hash)), ...(checked ? Array.from(visible) : [])]);
+                          }}
+                          className="w-4 h-4 rounded border-gray-300"
+                       />
+                       Chọn tất cả kết quả đang hiển thị
+                    </label>
+                 )}
+                 <div className="space-y-3">
+                    {filteredBankQuestions.map(q => (
+                       <label key={q.hash} className={`block border rounded-lg p-4 cursor-pointer transition-colors ${bankSelected.includes(q.hash) ? 'border-blue-400 bg-blue-50' : 'border-gray-200 hover:border-blue-200'}`}>
+                          <div className="flex items-center gap-2 mb-2 text-xs">
+                             <input 
+                                type="checkbox"
+                                checked={bankSelected.includes(q.hash)}
+                                onChange={() => handleToggleBankSelection(q.hash)}
+                                className="w-4 h-4 rounded border-gray-300"
+                             />
+                             <span className="px-2 py-0.5 rounded bg-blue-100 text-blue-800 font-bold">{q.type}</span>
+                             {q.level && <span className="px-2 py-0.5 rounded bg-yellow-100 text-yellow-800">{LEVEL_NAMES[q.level - 1]}</span>}
+                             {q.subject && <span className="px-2 py-0.5 rounded bg-slate-100 text-slate-700">{q.subject}</span>}
+                             {q.chapter && <span className="px-2 py-0.5 rounded bg-slate-100 text-slate-700">{q.chapter}</span>}
+                             <span className="text-slate-400 truncate">{q.source}</span>
+                          </div>
+                          <pre className="font-mono text-xs text-slate-800 whitespace-pre-wrap max-h-40 overflow-hidden">{q.content}</pre>
+                       </label>
+                    ))}
+                 </div>
+                 {bankQuestions.length === 0 && (
+                    <div className="absolute top-[30%] left-0 w-full text-center pointer-events-none opacity-40">
+                       <p className="text-xl text-slate-400 font-medium">Ngân hàng trống. Nhập file .tex hoặc lưu kết quả từ tab LaTeX...</p>
+                    </div>
+                 )}
+              </div>
+           )}
+
+           {activeTab !== 'settings' && activeTab !== 'bank' && (
               <div className="w-full h-full bg-white p-4 md:p-8 animate-fade-in-up">
+                 {(activeTab === 'word' || activeTab === 'latex') && pdfPages.length > 0 && !isPreviewMode && (
+                    <div className="mb-6 border border-blue-100 bg-blue-50/50 rounded-lg p-3">
+                       <div className="flex flex-wrap items-center gap-2 mb-3">
+                          <p className="font-bold text-slate-700 text-sm flex-1">
+                             Chọn trang PDF: {pdfPages.filter(p => p.selected && !p.answerOnly).length}/{pdfPages.length} trang sẽ chuyển đổi
+                             {pdfPages.some(p => p.answerOnly) && <span className="text-xs text-orange-600 font-normal"> · {pdfPages.filter(p => p.answerOnly).length} trang đáp án</span>}
+                          </p>
+                          <input
+                             type="text"
+                             value={pageRangeText}
+                             onChange={(e) => setPageRangeText(e.target.value)}
+                             onKeyDown={(e) => e.key === 'Enter' && handleApplyPageRange()}
+                             placeholder="VD: 3-8, 12"
+                             className="w-32 border border-gray-300 rounded-lg px-2 py-1 text-xs"
+                          />
+                          <button onClick={handleApplyPageRange} className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 text-white rounded-lg text-xs font-bold">
+                             Chọn khoảng
+                          </button>
+                          <button onClick={() => setPdfPages(prev => prev.map(p => ({ ...p, selected: true })))} className="px-3 py-1.5 bg-white hover:bg-gray-100 border border-gray-200 text-slate-700 rounded-lg text-xs font-bold">
+                             Chọn tất cả
+                          </button>
+                          <button onClick={() => setPdfPages(prev => prev.map(p => ({ ...p, selected: false })))} className="px-3 py-1.5 bg-white hover:bg-gray-100 border border-gray-200 text-slate-700 rounded-lg text-xs font-bold">
+                             Bỏ chọn
+                          </button>
+                       </div>
+                       <div className="flex gap-3 overflow-x-auto custom-scrollbar pb-2">
+                          {pdfPages.map((p, idx) => (
+                             <div key={p.page} className={`flex-shrink-0 w-28 border-2 rounded-lg p-1.5 bg-white transition-colors ${p.answerOnly ? 'border-orange-400' : p.selected ? 'border-blue-500' : 'border-gray-200 opacity-50'}`}>
+                                <img
+                                   src={p.thumbnail}
+                                   alt={`Trang ${p.page}`}
+                                   onClick={() => updatePdfPage(p.page, { selected: !p.selected })}
+                                   className="w-full h-32 object-contain cursor-pointer bg-slate-50"
+                                />
+                                <div className="flex items-center gap-1 mt-1 text-[11px]">
+                                   <input
+                                      type="checkbox"
+                                      checked={p.selected}
+                                      onChange={() => updatePdfPage(p.page, { selected: !p.selected })}
+                                      className="w-3.5 h-3.5"
+                                   />
+                                   <span className="font-bold text-slate-700 flex-1">Tr. {p.page}</span>
+                                   <button onClick={() => handleMovePdfPage(idx, -1)} disabled={idx === 0} className="px-1 text-slate-500 hover:text-blue-600 disabled:opacity-30" title="Lên trước">◀</button>
+                                   <button onClick={() => handleMovePdfPage(idx, 1)} disabled={idx === pdfPages.length - 1} className="px-1 text-slate-500 hover:text-blue-600 disabled:opacity-30" title="Ra sau">▶</button>
+                                </div>
+                                <button
+                                   onClick={() => updatePdfPage(p.page, { answerOnly: !p.answerOnly })}
+                                   className={`w-full mt-1 py-0.5 rounded text-[10px] font-bold ${p.answerOnly ? 'bg-orange-500 text-white' : 'bg-slate-100 text-slate-500 hover:bg-orange-100'}`}
+                                >
+                                   {p.answerOnly ? 'Trang đáp án' : 'Đánh dấu đáp án'}
+                                </button>
+                             </div>
+                          ))}
+                       </div>
+                    </div>
+                 )}
+
+                 {(activeTab === 'latex' || activeTab === 'latex-shuffle') && lintReport && lintReport.issues.length > 0 && !isPreviewMode && (
+                    <div className="mb-6 border border-orange-200 bg-orange-50 rounded-lg p-3">
+                       <div className="flex items-center gap-3 mb-2">
+                          <p className="font-bold text-slate-700 text-sm flex-1">
+                             Kiểm tra LaTeX: {lintReport.issues.filter(i => i.severity === 'error').length} lỗi, {lintReport.issues.filter(i => i.severity === 'warning').length} cảnh báo
+                          </p>
+                          {lintReport.issues.some(i => i.fix) && (
+                             <button
+                                onClick={() => applyLintEdits(lintReport.issues.flatMap(i => i.fix ? i.fix.edits : []))}
+                                className="px-3 py-1.5 bg-orange-500 hover:bg-orange-600 text-white rounded-lg text-xs font-bold shadow"
+                             >
+                                Sửa tất cả ({lintReport.issues.filter(i => i.fix).length})
+                             </button>
+                          )}
+                          <button onClick={handleLintLatex} className="px-3 py-1.5 bg-white hover:bg-gray-100 border border-gray-200 text-slate-700 rounded-lg text-xs font-bold">
+                             Kiểm tra lại
+                          </button>
+                          <button onClick={() => setLintReport(null)} className="px-3 py-1.5 bg-gray-200 hover:bg-gray-300 text-slate-700 rounded-lg text-xs font-bold">
+                             Đóng
+                          </button>
+                       </div>
+                       <div className="max-h-56 overflow-y-auto custom-scrollbar space-y-1 pr-1">
+                          {lintReport.issues.map((issue, idx) => (
+                             <div key={idx} className="flex items-center gap-2 text-xs">
+                                <span className={`px-2 py-0.5 rounded font-bold ${issue.severity === 'error' ? 'bg-red-100 text-red-700' : 'bg-yellow-100 text-yellow-800'}`}>
+                                   {issue.severity === 'error' ? 'Lỗi' : 'Cảnh báo'}
+                                </span>
+                                <button onClick={() => handleFocusLintIssue(issue)} className="font-mono text-blue-700 hover:underline whitespace-nowrap">
+                                   Dòng {issue.line}
+                                </button>
+                                {issue.questionNumber && <span className="text-slate-500 whitespace-nowrap">Câu {issue.questionNumber}</span>}
+                                <span className="flex-1 text-slate-700">{issue.message}</span>
+                                {issue.fix && (
+                                   <button onClick={() => applyLintEdits(issue.fix!.edits)} className="px-2 py-0.5 bg-white border border-orange-300 text-orange-700 hover:bg-orange-100 rounded font-bold whitespace-nowrap">
+                                      {issue.fix.label}
+                                   </button>
+                                )}
+                             </div>
+                          ))}
+                       </div>
+                    </div>
+                 )}
+
+                 {activeTab === 'latex' && statsReport && (
+                    <div className="mb-6 space-y-4">
+                       <div className="flex items-center gap-3">
+                          <p className="font-bold text-slate-700 flex-1">
+                             Thống kê: {statsReport.total} câu, độ dài trung bình {statsReport.avgLength} ký tự
+                          </p>
+                          <button onClick={handleDownloadStatistics} className="px-3 py-1.5 bg-green-600 hover:bg-green-500 text-white rounded-lg text-xs font-bold shadow">
+                             Tải CSV
+                          </button>
+                          <button onClick={() => setStatsReport(null)} className="px-3 py-1.5 bg-gray-200 hover:bg-gray-300 text-slate-700 rounded-lg text-xs font-bold">
+                             Đóng
+                          </button>
+                       </div>
+
+                       <table className="w-full text-xs border border-gray-200">
+                          <thead className="bg-slate-100 text-slate-700">
+                             <tr>
+                                {['Loại', 'Số câu', 'Độ dài TB', 'Thiếu \\True', 'Shortans rỗng', 'Có hình', ''].map((h, i) => (
+                                   <th key={i} className="p-2 text-left border-b border-gray-200">{h}</th>
+                                ))}
+                             </tr>
+                          </thead>
+                          <tbody>
+                             {statsReport.byType.map(t => (
+                                <tr key={t.type} className="border-b border-gray-100">
+                                   <td className="p-2 font-bold">{t.type}</td>
+                                   <td className="p-2">{t.count}</td>
+                                   <td className="p-2">{t.avgLength}</td>
+                                   <td className={`p-2 ${t.missingTrue ? 'text-red-600 font-bold' : ''}`}>{t.missingTrue}</td>
+                                   <td className={`p-2 ${t.emptyShortans ? 'text-red-600 font-bold' : ''}`}>{t.emptyShortans}</td>
+                                   <td className="p-2">{t.withFigure}</td>
+                                   <td className="p-2 w-1/3">
+                                      <div className="h-3 bg-blue-500 rounded" style={{ width: `${statsReport.total ? t.count / statsReport.total * 100 : 0}%` }}></div>
+                                   </td>
+                                </tr>
+                             ))}
+                          </tbody>
+                       </table>
+
+                       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                          <div className="border border-gray-200 rounded-lg p-3">
+                             <p className="font-bold text-slate-700 text-xs mb-2">Mức độ nhận thức</p>
+                             {statsReport.byLevel.map(l => (
+                                <div key={l.label} className="flex items-center gap-2 text-xs mb-1">
+                                   <span className="w-28 text-slate-600">{l.label}</span>
+                                   <div className="flex-1 bg-slate-100 rounded h-3">
+                                      <div className="h-3 bg-yellow-400 rounded" style={{ width: `${l.count / statsReport.total * 100}%` }}></div>
+                                   </div>
+                                   <span className="w-8 text-right font-bold">{l.count}</span>
+                                </div>
+                             ))}
+                          </div>
+                          <div className="border border-gray-200 rounded-lg p-3">
+                             <p className="font-bold text-slate-700 text-xs mb-2">Từ khóa thường gặp (số câu)</p>
+                             {statsReport.keywords.length === 0 && <p className="text-xs text-slate-400 italic">Không có cụm từ lặp lại.</p>}
+                             <div className="max-h-48 overflow-y-auto custom-scrollbar pr-1">
+                                {statsReport.keywords.map(k => (
+                                   <div key={k.keyword} className="flex items-center gap-2 text-xs mb-1">
+                                      <span className="w-32 text-slate-600 truncate">{k.keyword}</span>
+                                      <div className="flex-1 bg-slate-100 rounded h-3">
+                                         <div className="h-3 bg-green-500 rounded" style={{ width: `${k.count / statsReport.keywords[0].count * 100}%` }}></div>
+                                      </div>
+                                      <span className="w-8 text-right font-bold">{k.count}</span>
+                                   </div>
+                                ))}
+                             </div>
+                          </div>
+                       </div>
+
+                       {([
+                          ['Câu thiếu \\True', statsReport.missingTrue],
+                          ['Câu có \\shortans rỗng', statsReport.emptyShortans],
+                          ['Câu có hình', statsReport.withFigure]
+                       ] as [string, number[]][]).filter(([, numbers]) => numbers.length > 0).map(([label, numbers]) => (
+                          <p key={label} className="text-xs text-slate-600">
+                             <span className="font-bold">{label} ({numbers.length}):</span> {numbers.join(', ')}
+                          </p>
+                       ))}
+                    </div>
+                 )}
+
+                 {activeTab === 'latex' && figureGallery.length > 0 && (
+                    <div className="mb-6">
+                       <p className="font-bold text-slate-700 mb-3">Thư viện hình ({figureGallery.length}) - file .tex bên dưới có mỗi hình một trang</p>
+                       <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-3">
+                          {figureGallery.map((figure, idx) => (
+                             <div key={idx} className="border border-gray-200 rounded-lg p-3 shadow-sm">
+                                <div className="flex items-center gap-2 mb-2 text-xs">
+                                   <span className="px-2 py-0.5 rounded bg-blue-100 text-blue-800 font-bold">Hình {idx + 1}</span>
+                                   <span className="font-bold text-slate-700">Câu {figure.questionNumber}</span>
+                                   <span className="text-slate-400">{figure.questionId}</span>
+                                   <span className="ml-auto px-2 py-0.5 rounded bg-slate-100 text-slate-600">
+                                      {figure.kind === 'tikz' ? 'TikZ' : figure.kind === 'image' ? 'Ảnh' : 'immini'}
+                                   </span>
+                                </div>
+                                <pre className="font-mono text-[11px] text-slate-800 whitespace-pre-wrap max-h-40 overflow-auto bg-slate-50 rounded p-2">{figure.code}</pre>
+                             </div>
+                          ))}
+                       </div>
+                    </div>
+                 )}
                  {!isPreviewMode && (
                     <div 
                         ref={contentEditableRef}
@@ -1586,7 +6151,7 @@ oly]{}
                         suppressContentEditableWarning={true}
                         onInput={handleContentChange}
                         onBlur={handleContentChange}
-                        className={`generated-content prose prose-slate max-w-none w-full text-lg leading-relaxed text-gray-900 outline-none focus:ring-2 ring-blue-100 rounded-lg p-8 border border-gray-200 shadow-sm ${activeTab === 'latex' || activeTab === 'latex-shuffle' ? 'font-mono text-sm whitespace-pre-wrap' : ''}`}
+                        className={`generated-content prose prose-slate max-w-none w-full text-lg leading-relaxed text-gray-900 outline-none focus:ring-2 ring-blue-100 rounded-lg p-8 border border-gray-200 shadow-sm ${(activeTab === 'latex' || activeTab === 'latex-shuffle') && wordShuffleDocs.length === 0 ? 'font-mono text-sm whitespace-pre-wrap' : ''}`}
                         style={{ minHeight: 'calc(100vh - 180px)' }}
                         dangerouslySetInnerHTML={{ __html: resultContent }}
                     >
@@ -1595,7 +6160,7 @@ oly]{}
 
                  {isPreviewMode && (
                     <div 
-                        className={`generated-content prose prose-slate max-w-none w-full text-lg leading-relaxed text-gray-900 p-8 border border-gray-100 ${activeTab === 'latex' || activeTab === 'latex-shuffle' ? 'font-mono text-sm whitespace-pre-wrap' : ''}`}
+                        className={`generated-content prose prose-slate max-w-none w-full text-lg leading-relaxed text-gray-900 p-8 border border-gray-100 ${(activeTab === 'latex' || activeTab === 'latex-shuffle') && wordShuffleDocs.length === 0 ? 'font-mono text-sm whitespace-pre-wrap' : ''}`}
                         style={{ minHeight: 'calc(100vh - 180px)' }}
                         dangerouslySetInnerHTML={{ __html: resultContent }}
                     >
@@ -1607,7 +6172,7 @@ oly]{}
                        {loadingStatus || "Đang xử lý..."}
                     </div>
                  )}
-                 {!resultContent && !isLoading && (
+                 {!resultContent && !isLoading && pdfPages.length === 0 && (
                     <div className="absolute top-[30%] left-0 w-full text-center pointer-events-none opacity-40">
                        <p className="text-xl text-slate-400 font-medium">Kết quả chuyển đổi sẽ hiển thị tại đây...</p>
                     </div>